@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "TrendWindow" AS ENUM ('HOUR', 'DAY', 'WEEK');
+
+-- AlterTable
+ALTER TABLE "post_hashtags" ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill link times from their posts
+UPDATE "post_hashtags" SET "createdAt" = "posts"."createdAt" FROM "posts" WHERE "posts"."id" = "post_hashtags"."postId";
+
+-- CreateTable
+CREATE TABLE "hashtag_trends" (
+    "hashtagId" TEXT NOT NULL,
+    "window" "TrendWindow" NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "postsCount" INTEGER NOT NULL DEFAULT 0,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "hashtag_trends_pkey" PRIMARY KEY ("hashtagId","window")
+);
+
+-- CreateIndex
+CREATE INDEX "post_hashtags_createdAt_idx" ON "post_hashtags"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "hashtag_trends_window_score_idx" ON "hashtag_trends"("window", "score");
+
+-- AddForeignKey
+ALTER TABLE "hashtag_trends" ADD CONSTRAINT "hashtag_trends_hashtagId_fkey" FOREIGN KEY ("hashtagId") REFERENCES "hashtags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "mutes" (
+    "id" TEXT NOT NULL,
+    "muterId" TEXT NOT NULL,
+    "mutedId" TEXT NOT NULL,
+    "mutePosts" BOOLEAN NOT NULL DEFAULT true,
+    "muteStories" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "mutes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "mutes_mutedId_idx" ON "mutes"("mutedId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mutes_muterId_mutedId_key" ON "mutes"("muterId", "mutedId");
+
+-- AddForeignKey
+ALTER TABLE "mutes" ADD CONSTRAINT "mutes_muterId_fkey" FOREIGN KEY ("muterId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "mutes" ADD CONSTRAINT "mutes_mutedId_fkey" FOREIGN KEY ("mutedId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
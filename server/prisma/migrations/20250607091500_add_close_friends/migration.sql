@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "StoryAudience" AS ENUM ('EVERYONE', 'CLOSE_FRIENDS');
+
+-- AlterTable
+ALTER TABLE "stories" ADD COLUMN     "audience" "StoryAudience" NOT NULL DEFAULT 'EVERYONE';
+
+-- CreateTable
+CREATE TABLE "close_friends" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "friendId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "close_friends_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "close_friends_friendId_idx" ON "close_friends"("friendId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "close_friends_userId_friendId_key" ON "close_friends"("userId", "friendId");
+
+-- AddForeignKey
+ALTER TABLE "close_friends" ADD CONSTRAINT "close_friends_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "close_friends" ADD CONSTRAINT "close_friends_friendId_fkey" FOREIGN KEY ("friendId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "highlights" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "coverUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "highlights_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "highlight_stories" (
+    "id" TEXT NOT NULL,
+    "highlightId" TEXT NOT NULL,
+    "storyId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "highlight_stories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "highlights_userId_idx" ON "highlights"("userId");
+
+-- CreateIndex
+CREATE INDEX "highlight_stories_storyId_idx" ON "highlight_stories"("storyId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "highlight_stories_highlightId_storyId_key" ON "highlight_stories"("highlightId", "storyId");
+
+-- AddForeignKey
+ALTER TABLE "highlights" ADD CONSTRAINT "highlights_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "highlight_stories" ADD CONSTRAINT "highlight_stories_highlightId_fkey" FOREIGN KEY ("highlightId") REFERENCES "highlights"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "highlight_stories" ADD CONSTRAINT "highlight_stories_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
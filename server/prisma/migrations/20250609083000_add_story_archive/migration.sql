@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "stories" ADD COLUMN     "archivedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "stories_expiresAt_archivedAt_idx" ON "stories"("expiresAt", "archivedAt");
+
+-- CreateIndex
+CREATE INDEX "stories_userId_archivedAt_idx" ON "stories"("userId", "archivedAt");
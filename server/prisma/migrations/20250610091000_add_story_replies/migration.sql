@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "MessageType" ADD VALUE 'STORY_REPLY';
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "storyId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "messages_storyId_idx" ON "messages"("storyId");
+
+-- AddForeignKey
+ALTER TABLE "messages" ADD CONSTRAINT "messages_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "StickerType" AS ENUM ('POLL', 'QUESTION', 'QUIZ', 'EMOJI_SLIDER', 'MENTION', 'LINK');
+
+-- CreateTable
+CREATE TABLE "story_stickers" (
+    "id" TEXT NOT NULL,
+    "storyId" TEXT NOT NULL,
+    "type" "StickerType" NOT NULL,
+    "x" DOUBLE PRECISION NOT NULL,
+    "y" DOUBLE PRECISION NOT NULL,
+    "width" DOUBLE PRECISION,
+    "height" DOUBLE PRECISION,
+    "rotation" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "story_stickers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "story_sticker_responses" (
+    "id" TEXT NOT NULL,
+    "stickerId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "optionIndex" INTEGER,
+    "text" TEXT,
+    "value" DOUBLE PRECISION,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "story_sticker_responses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "story_stickers_storyId_idx" ON "story_stickers"("storyId");
+
+-- CreateIndex
+CREATE INDEX "story_sticker_responses_stickerId_createdAt_idx" ON "story_sticker_responses"("stickerId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "story_sticker_responses_stickerId_userId_key" ON "story_sticker_responses"("stickerId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "story_stickers" ADD CONSTRAINT "story_stickers_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "story_sticker_responses" ADD CONSTRAINT "story_sticker_responses_stickerId_fkey" FOREIGN KEY ("stickerId") REFERENCES "story_stickers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "story_sticker_responses" ADD CONSTRAINT "story_sticker_responses_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'STORY_SCREENSHOT';
+
+-- AlterTable
+ALTER TABLE "story_views" ADD COLUMN     "lastScreenshotAt" TIMESTAMP(3),
+ADD COLUMN     "screenshotCount" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "post_media" ADD COLUMN     "duration" DOUBLE PRECISION,
+ADD COLUMN     "posterUrl" TEXT;
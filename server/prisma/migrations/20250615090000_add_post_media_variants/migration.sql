@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "post_media" ADD COLUMN     "placeholder" TEXT,
+ADD COLUMN     "variants" JSONB;
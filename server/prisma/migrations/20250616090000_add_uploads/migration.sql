@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "UploadPurpose" AS ENUM ('POST', 'STORY', 'MESSAGE');
+
+-- CreateEnum
+CREATE TYPE "UploadStatus" AS ENUM ('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "uploads" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "purpose" "UploadPurpose" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "chunkSize" INTEGER NOT NULL,
+    "totalChunks" INTEGER NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "status" "UploadStatus" NOT NULL DEFAULT 'PENDING',
+    "error" TEXT,
+    "url" TEXT,
+    "mediaType" "MediaType",
+    "width" INTEGER,
+    "height" INTEGER,
+    "duration" DOUBLE PRECISION,
+    "posterUrl" TEXT,
+    "variants" JSONB,
+    "placeholder" TEXT,
+    "claimedAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "uploads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "uploads_userId_idx" ON "uploads"("userId");
+
+-- CreateIndex
+CREATE INDEX "uploads_expiresAt_idx" ON "uploads"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "uploads" ADD CONSTRAINT "uploads_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "media_assets" (
+    "id" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "profile" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "resourceType" TEXT NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "duration" DOUBLE PRECISION,
+    "bytes" INTEGER NOT NULL,
+    "variants" JSONB,
+    "placeholder" TEXT,
+    "refCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "media_assets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "media_assets_url_key" ON "media_assets"("url");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "media_assets_hash_profile_key" ON "media_assets"("hash", "profile");
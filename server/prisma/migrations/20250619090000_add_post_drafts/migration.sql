@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "DraftStatus" AS ENUM ('DRAFT', 'SCHEDULED');
+
+-- CreateTable
+CREATE TABLE "post_drafts" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "caption" TEXT,
+    "location" TEXT,
+    "commentsEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "likesEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "status" "DraftStatus" NOT NULL DEFAULT 'DRAFT',
+    "publishAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "post_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "post_draft_media" (
+    "id" TEXT NOT NULL,
+    "draftId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "type" "MediaType" NOT NULL,
+    "width" INTEGER,
+    "height" INTEGER,
+    "duration" DOUBLE PRECISION,
+    "posterUrl" TEXT,
+    "variants" JSONB,
+    "placeholder" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "post_draft_media_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "post_drafts_userId_status_idx" ON "post_drafts"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "post_drafts_status_publishAt_idx" ON "post_drafts"("status", "publishAt");
+
+-- CreateIndex
+CREATE INDEX "post_draft_media_draftId_idx" ON "post_draft_media"("draftId");
+
+-- AddForeignKey
+ALTER TABLE "post_drafts" ADD CONSTRAINT "post_drafts_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "post_draft_media" ADD CONSTRAINT "post_draft_media_draftId_fkey" FOREIGN KEY ("draftId") REFERENCES "post_drafts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "uploads_url_idx" ON "uploads"("url");
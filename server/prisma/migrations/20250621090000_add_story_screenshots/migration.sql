@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "story_screenshots" (
+    "id" TEXT NOT NULL,
+    "storyId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "story_screenshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "story_screenshots_storyId_createdAt_idx" ON "story_screenshots"("storyId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "story_screenshots_userId_idx" ON "story_screenshots"("userId");
+
+-- AddForeignKey
+ALTER TABLE "story_screenshots" ADD CONSTRAINT "story_screenshots_storyId_fkey" FOREIGN KEY ("storyId") REFERENCES "stories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "story_screenshots" ADD CONSTRAINT "story_screenshots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Only the latest screenshot of each viewer was kept before, so that is
+-- the one event that can be carried over
+INSERT INTO "story_screenshots" ("id", "storyId", "userId", "createdAt")
+SELECT gen_random_uuid()::text, "storyId", "userId", "lastScreenshotAt"
+FROM "story_views"
+WHERE "lastScreenshotAt" IS NOT NULL;
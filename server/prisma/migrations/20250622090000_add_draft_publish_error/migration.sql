@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "post_drafts" ADD COLUMN     "publishError" TEXT;
@@ -5,9 +5,8 @@ import {
   FastifyReply,
 } from 'fastify';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
-import { connectDatabase } from './config/database';
+import { connectDatabase, config } from './config/database';
 import logger from './utils/logger';
-import path from 'path';
 
 // Load environment variables
 import dotenv from 'dotenv';
@@ -65,8 +64,8 @@ export const registerPlugins = async (fastify: FastifyInstance) => {
 
   // Static files
   await fastify.register(require('@fastify/static'), {
-    root: path.join(__dirname, '../uploads'),
-    prefix: '/uploads/',
+    root: config.storage.localDir,
+    prefix: `${config.storage.localUrlPrefix}/`,
   });
 
   // Swagger documentation
@@ -176,6 +175,16 @@ export const registerPlugins = async (fastify: FastifyInstance) => {
     prefix: `/api/${process.env.API_VERSION || 'v1'}/posts`,
   });
 
+  const { collectionRoutes } = await import('./routes/collection');
+  await fastify.register(collectionRoutes, {
+    prefix: `/api/${process.env.API_VERSION || 'v1'}/posts/collections`,
+  });
+
+  const { draftRoutes } = await import('./routes/draft');
+  await fastify.register(draftRoutes, {
+    prefix: `/api/${process.env.API_VERSION || 'v1'}/posts/drafts`,
+  });
+
   const { commentRoutes } = await import('./routes/comment');
   await fastify.register(commentRoutes, {
     prefix: `/api/${process.env.API_VERSION || 'v1'}/comments`,
@@ -191,6 +200,11 @@ export const registerPlugins = async (fastify: FastifyInstance) => {
     prefix: `/api/${process.env.API_VERSION || 'v1'}/stories`,
   });
 
+  const { highlightRoutes } = await import('./routes/highlight');
+  await fastify.register(highlightRoutes, {
+    prefix: `/api/${process.env.API_VERSION || 'v1'}/stories/highlights`,
+  });
+
   const { conversationRoutes } = await import('./routes/conversation');
   await fastify.register(conversationRoutes, {
     prefix: `/api/${process.env.API_VERSION || 'v1'}/conversations`,
@@ -201,5 +215,10 @@ export const registerPlugins = async (fastify: FastifyInstance) => {
     prefix: `/api/${process.env.API_VERSION || 'v1'}`,
   });
 
+  const { notificationRoutes } = await import('./routes/notification');
+  await fastify.register(notificationRoutes, {
+    prefix: `/api/${process.env.API_VERSION || 'v1'}/notifications`,
+  });
+
   logger.info('✅ All plugins registered successfully');
 };
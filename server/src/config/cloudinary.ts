@@ -30,7 +30,16 @@ export const uploadOptions = {
   post: {
     folder: 'twilsta/posts',
     quality: 'auto:good',
-    allowed_formats: ['jpg', 'png', 'jpeg', 'gif', 'mp4', 'mov'],
+    allowed_formats: [
+      'jpg',
+      'png',
+      'jpeg',
+      'gif',
+      'webp',
+      'avif',
+      'mp4',
+      'mov',
+    ],
     max_file_size: 50000000, // 50MB
   },
   story: {
@@ -39,6 +48,24 @@ export const uploadOptions = {
     allowed_formats: ['jpg', 'png', 'jpeg', 'gif', 'mp4', 'mov'],
     max_file_size: 30000000, // 30MB
   },
+  message: {
+    folder: 'twilsta/messages',
+    quality: 'auto:good',
+    allowed_formats: [
+      'jpg',
+      'png',
+      'jpeg',
+      'gif',
+      'mp4',
+      'mov',
+      'mp3',
+      'm4a',
+      'wav',
+      'ogg',
+      'webm',
+    ],
+    max_file_size: 50000000, // 50MB
+  },
   thumbnail: {
     folder: 'twilsta/thumbnails',
     transformation: [
@@ -55,13 +82,15 @@ export const uploadOptions = {
   },
 } as const;
 
+export type UploadType = keyof typeof uploadOptions;
+
 // Upload helper class
 export class CloudinaryService {
   // Upload single file from stream
   static async uploadStream(
     stream: NodeJS.ReadableStream,
     options: any = {},
-    type: 'profile' | 'post' | 'story' | 'thumbnail' = 'post'
+    type: UploadType = 'post'
   ): Promise<any> {
     try {
       const uploadConfig = { ...uploadOptions[type], ...options };
@@ -86,6 +115,8 @@ export class CloudinaryService {
                 height: result.height,
                 format: result.format,
                 bytes: result.bytes,
+                duration: result.duration,
+                resource_type: result.resource_type,
                 created_at: result.created_at,
               });
             }
@@ -104,7 +135,7 @@ export class CloudinaryService {
   static async uploadFile(
     file: string | NodeJS.ReadableStream,
     options: any = {},
-    type: 'profile' | 'post' | 'story' | 'thumbnail' = 'post'
+    type: UploadType = 'post'
   ): Promise<any> {
     if (typeof file === 'string') {
       try {
@@ -139,7 +170,7 @@ export class CloudinaryService {
   static async uploadFiles(
     files: string[],
     options: any = {},
-    type: 'profile' | 'post' | 'story' | 'thumbnail' = 'post'
+    type: UploadType = 'post'
   ): Promise<any[]> {
     try {
       const uploadPromises = files.map((file) =>
@@ -153,9 +184,14 @@ export class CloudinaryService {
   }
 
   // Delete file by public_id
-  static async deleteFile(publicId: string): Promise<boolean> {
+  static async deleteFile(
+    publicId: string,
+    resourceType: 'image' | 'video' | 'raw' = 'image'
+  ): Promise<boolean> {
     try {
-      const result = await cloudinary.uploader.destroy(publicId);
+      const result = await cloudinary.uploader.destroy(publicId, {
+        resource_type: resourceType,
+      });
       return result.result === 'ok';
     } catch (error) {
       logger.error(`Error deleting file ${publicId} from Cloudinary:`, error);
@@ -232,6 +268,16 @@ export class CloudinaryService {
     });
   }
 
+  // Generate a poster frame for a video at its own size
+  static generateVideoPoster(publicId: string, offsetSeconds = 0): string {
+    return cloudinary.url(publicId, {
+      resource_type: 'video',
+      format: 'jpg',
+      start_offset: offsetSeconds,
+      quality: 'auto:good',
+    });
+  }
+
   // Get file info
   static async getFileInfo(publicId: string): Promise<any> {
     try {
@@ -252,18 +298,22 @@ export class CloudinaryService {
     }
   }
 
-  // Search files
+  // Search files, a page at a time. Pass the returned cursor to get the
+  // next page; it is null on the last one.
   static async searchFiles(
     expression: string,
-    maxResults: number = 20
-  ): Promise<any[]> {
+    maxResults: number = 20,
+    nextCursor?: string
+  ): Promise<{ resources: any[]; nextCursor: string | null }> {
     try {
-      const result = await cloudinary.search
+      const search = cloudinary.search
         .expression(expression)
-        .max_results(maxResults)
-        .execute();
+        .max_results(maxResults);
+      if (nextCursor) search.next_cursor(nextCursor);
 
-      return result.resources.map((resource: any) => ({
+      const result = await search.execute();
+
+      const resources = result.resources.map((resource: any) => ({
         public_id: resource.public_id,
         url: resource.secure_url,
         width: resource.width,
@@ -273,6 +323,8 @@ export class CloudinaryService {
         created_at: resource.created_at,
         resource_type: resource.resource_type,
       }));
+
+      return { resources, nextCursor: result.next_cursor ?? null };
     } catch (error) {
       logger.error('Error searching files in Cloudinary:', error);
       throw new Error('Failed to search files');
@@ -313,10 +365,7 @@ export const checkCloudinaryHealth = async () => {
 };
 
 // Validate file before upload
-export const validateFile = (
-  file: any,
-  type: 'profile' | 'post' | 'story' | 'thumbnail' = 'post'
-) => {
+export const validateFile = (file: any, type: UploadType = 'post') => {
   const options = uploadOptions[type];
 
   // Check file size
@@ -1,3 +1,5 @@
+import os from 'os';
+import path from 'path';
 import { PrismaClient } from '@prisma/client';
 import logger from '../utils/logger';
 
@@ -47,11 +49,42 @@ export const config = {
       'image/gif',
       'video/mp4',
     ],
+    maxVideoDurationSeconds:
+      Number(process.env.MAX_VIDEO_DURATION_SECONDS) || 60, // 1 minute
+    // Chunks of uploads sent over the socket, until they are assembled
+    chunkDir: path.resolve(
+      process.env.UPLOAD_CHUNK_DIR || path.join(os.tmpdir(), 'twilsta-uploads')
+    ),
+    chunkedUploadTtlMs: Number(process.env.CHUNKED_UPLOAD_TTL_MS) || 86400000, // 24 hours
+  },
+  storage: {
+    driver: process.env.STORAGE_DRIVER || 'cloudinary', // 'cloudinary' | 'local'
+    localDir: path.resolve(process.env.STORAGE_LOCAL_DIR || 'uploads'),
+    localUrlPrefix: '/uploads',
+    // ffmpeg binary the local driver reads video length and poster
+    // frames with
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    // Most media a user can keep stored, in bytes
+    userQuotaBytes: Number(process.env.STORAGE_USER_QUOTA_BYTES) || 1073741824, // 1GB
   },
   rateLimit: {
     windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS) || 900000, // 15 minutes
     maxRequests: Number(process.env.RATE_LIMIT_MAX_REQUESTS) || 100,
   },
+  jobs: {
+    trendingHashtagsIntervalMs:
+      Number(process.env.TRENDING_HASHTAGS_INTERVAL_MS) || 600000, // 10 minutes
+    storyExpiryIntervalMs:
+      Number(process.env.STORY_EXPIRY_INTERVAL_MS) || 60000, // 1 minute
+    mediaGcIntervalMs: Number(process.env.MEDIA_GC_INTERVAL_MS) || 21600000, // 6 hours
+    // Orphaned media younger than this is kept
+    mediaGcGracePeriodMs:
+      Number(process.env.MEDIA_GC_GRACE_PERIOD_MS) || 86400000, // 24 hours
+    // Only report orphaned media instead of deleting it
+    mediaGcDryRun: process.env.MEDIA_GC_DRY_RUN === 'true',
+    scheduledPostsIntervalMs:
+      Number(process.env.SCHEDULED_POSTS_INTERVAL_MS) || 30000, // 30 seconds
+  },
 };
 
 // Create Prisma client with proper configuration
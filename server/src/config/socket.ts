@@ -188,6 +188,12 @@ export const socketHelpers = {
     io.to(`conversation:${conversationId}`).emit(event, data);
   },
 
+  // Send event to everyone who has a story open
+  sendToStory: (storyId: string, event: string, data: any) => {
+    if (!io) throw new Error('Socket.IO not initialized');
+    io.to(`story:${storyId}`).emit(event, data);
+  },
+
   // Send notification to user
   sendNotification: (userId: string, notification: any) => {
     if (!io) throw new Error('Socket.IO not initialized');
@@ -0,0 +1,576 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../config/database';
+import { loggerHelpers } from '../utils/logger';
+import { ArrayUtils } from '../utils/helpers';
+import {
+  SavedPostService,
+  collectionSummaryInclude,
+  savedPostInclude,
+  visibleSavedPostWhere,
+} from '../services/saved-post.service';
+import type {
+  ApiResponse,
+  AddCollectionPostRequest,
+  CreateCollectionRequest,
+  ReorderCollectionsRequest,
+  UpdateCollectionRequest,
+} from '../types';
+
+// Collections hold saved posts, so they are only ever visible to their
+// owner. Other users' collections are reported as not found.
+export class CollectionController {
+  // Create a collection, saving any of the given posts not saved yet
+  static async createCollection(
+    request: FastifyRequest<{ Body: CreateCollectionRequest }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const userId = request.user.id;
+      const { name, coverUrl } = request.body;
+      const postIds = ArrayUtils.unique(request.body.postIds || []);
+
+      const unavailableIds = await SavedPostService.findUnavailablePostIds(
+        userId,
+        postIds
+      );
+
+      if (unavailableIds.length > 0) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Some posts cannot be saved',
+          error: 'INVALID_COLLECTION_POSTS',
+          details: { postIds: unavailableIds },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const savedPostIds = await SavedPostService.saveMany(userId, postIds);
+
+      const collection = await prisma.collection.create({
+        data: {
+          userId,
+          name,
+          coverUrl,
+          position: await SavedPostService.nextCollectionPosition(userId),
+          posts: {
+            create: savedPostIds.map((savedPostId, position) => ({
+              savedPostId,
+              position,
+            })),
+          },
+        },
+        include: collectionSummaryInclude(userId),
+      });
+
+      return reply.status(201).send({
+        success: true,
+        message: 'Collection created successfully',
+        data: SavedPostService.formatCollection(collection),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'create_collection',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to create collection',
+        error: 'CREATE_COLLECTION_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get the current user's collections in their order
+  static async getCollections(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const userId = request.user.id;
+
+      const collections = await prisma.collection.findMany({
+        where: { userId },
+        include: collectionSummaryInclude(userId),
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      return reply.send({
+        success: true,
+        data: {
+          collections: collections.map((collection) =>
+            SavedPostService.formatCollection(collection)
+          ),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_collections',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get collections',
+        error: 'GET_COLLECTIONS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Reorder the current user's collections
+  static async reorderCollections(
+    request: FastifyRequest<{ Body: ReorderCollectionsRequest }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const userId = request.user.id;
+      const collectionIds = ArrayUtils.unique(request.body.collectionIds);
+
+      const owned = await prisma.collection.findMany({
+        where: { id: { in: collectionIds }, userId },
+        select: { id: true },
+      });
+      const ownedIds = owned.map((collection) => collection.id);
+      const foreignIds = collectionIds.filter((id) => !ownedIds.includes(id));
+
+      if (foreignIds.length > 0) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Collections not found',
+          error: 'INVALID_COLLECTIONS',
+          details: { collectionIds: foreignIds },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await SavedPostService.setCollectionOrder(userId, collectionIds);
+
+      const collections = await prisma.collection.findMany({
+        where: { userId },
+        include: collectionSummaryInclude(userId),
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Collections reordered successfully',
+        data: {
+          collections: collections.map((collection) =>
+            SavedPostService.formatCollection(collection)
+          ),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'reorder_collections',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to reorder collections',
+        error: 'REORDER_COLLECTIONS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get a collection with a page of its posts in order
+  static async getCollection(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const { page = 1, limit = 10 } = request.query;
+      const skip = (page - 1) * limit;
+      const userId = request.user.id;
+
+      const collection = await prisma.collection.findFirst({
+        where: { id, userId },
+        include: collectionSummaryInclude(userId),
+      });
+
+      if (!collection) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Collection not found',
+          error: 'COLLECTION_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const formatted = SavedPostService.formatCollection(collection);
+
+      const items = await prisma.collectionPost.findMany({
+        where: {
+          collectionId: id,
+          savedPost: visibleSavedPostWhere(userId),
+        },
+        include: {
+          savedPost: {
+            include: {
+              post: { include: savedPostInclude(userId) },
+            },
+          },
+        },
+        orderBy: { position: 'asc' },
+        skip,
+        take: limit,
+      });
+
+      const total = formatted.postsCount;
+
+      return reply.send({
+        success: true,
+        data: {
+          collection: formatted,
+          items: items.map((item) => ({
+            ...SavedPostService.formatPost(item.savedPost),
+            position: item.position,
+          })),
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrevious: page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_collection',
+        userId: request.user?.id,
+        collectionId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get collection',
+        error: 'GET_COLLECTION_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Update a collection's name, cover or ordered posts
+  static async updateCollection(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: UpdateCollectionRequest;
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const { name, coverUrl } = request.body;
+      const userId = request.user.id;
+
+      const existing = await prisma.collection.findFirst({
+        where: { id, userId },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Collection not found',
+          error: 'COLLECTION_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (request.body.postIds) {
+        const postIds = ArrayUtils.unique(request.body.postIds);
+
+        const unavailableIds = await SavedPostService.findUnavailablePostIds(
+          userId,
+          postIds
+        );
+
+        if (unavailableIds.length > 0) {
+          return reply.status(400).send({
+            success: false,
+            message: 'Some posts cannot be saved',
+            error: 'INVALID_COLLECTION_POSTS',
+            details: { postIds: unavailableIds },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        const savedPostIds = await SavedPostService.saveMany(userId, postIds);
+        await SavedPostService.setCollectionPosts(id, savedPostIds);
+      }
+
+      // A null cover falls back to the first post again
+      const collection = await prisma.collection.update({
+        where: { id },
+        data: {
+          ...(name !== undefined ? { name } : {}),
+          ...(coverUrl !== undefined ? { coverUrl } : {}),
+        },
+        include: collectionSummaryInclude(userId),
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Collection updated successfully',
+        data: SavedPostService.formatCollection(collection),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'update_collection',
+        userId: request.user?.id,
+        collectionId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to update collection',
+        error: 'UPDATE_COLLECTION_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Delete a collection; its posts stay saved
+  static async deleteCollection(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { count } = await prisma.collection.deleteMany({
+        where: { id: request.params.id, userId: request.user.id },
+      });
+
+      if (count === 0) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Collection not found',
+          error: 'COLLECTION_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Collection deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'delete_collection',
+        userId: request.user?.id,
+        collectionId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to delete collection',
+        error: 'DELETE_COLLECTION_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Add a post to the end of a collection, saving it if needed
+  static async addPostToCollection(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: AddCollectionPostRequest;
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const { postId } = request.body;
+      const userId = request.user.id;
+
+      const existing = await prisma.collection.findFirst({
+        where: { id, userId },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Collection not found',
+          error: 'COLLECTION_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const unavailableIds = await SavedPostService.findUnavailablePostIds(
+        userId,
+        [postId]
+      );
+
+      if (unavailableIds.length > 0) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Post not found',
+          error: 'POST_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const [savedPostId] = await SavedPostService.saveMany(userId, [postId]);
+      await SavedPostService.addToCollection(id, savedPostId);
+
+      const collection = await prisma.collection.update({
+        where: { id },
+        data: { updatedAt: new Date() },
+        include: collectionSummaryInclude(userId),
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Post added to collection',
+        data: SavedPostService.formatCollection(collection),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'add_collection_post',
+        userId: request.user?.id,
+        collectionId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to add post to collection',
+        error: 'ADD_COLLECTION_POST_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Remove a post from a collection; it stays saved
+  static async removePostFromCollection(
+    request: FastifyRequest<{ Params: { id: string; postId: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id, postId } = request.params;
+      const userId = request.user.id;
+
+      const { count } = await prisma.collectionPost.deleteMany({
+        where: {
+          collectionId: id,
+          collection: { userId },
+          savedPost: { userId, postId },
+        },
+      });
+
+      if (count === 0) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Post not in collection',
+          error: 'POST_NOT_IN_COLLECTION',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Post removed from collection',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'remove_collection_post',
+        userId: request.user?.id,
+        collectionId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to remove post from collection',
+        error: 'REMOVE_COLLECTION_POST_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+}
@@ -1,6 +1,10 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../config/database';
 import logger, { loggerHelpers } from '../utils/logger';
+import { NotificationService } from '../services/notification.service';
+import { MentionService, mentionsInclude } from '../services/mention.service';
+import { VisibilityService } from '../services/visibility.service';
+import { BlockService } from '../services/block.service';
 import type { ApiResponse } from '../types';
 import { Prisma, CommentLike } from '@prisma/client';
 
@@ -31,6 +35,8 @@ export class CommentController {
         where: { id },
         select: {
           id: true,
+          userId: true,
+          user: { select: { id: true, isPrivate: true } },
           commentsEnabled: true,
           commentsCount: true,
         },
@@ -45,6 +51,16 @@ export class CommentController {
         });
       }
 
+      // Check if user has access to the post
+      if (!(await VisibilityService.canView(request.user.id, post.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this post',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       if (!post.commentsEnabled) {
         return reply.status(400).send({
           success: false,
@@ -80,6 +96,22 @@ export class CommentController {
         data: { commentsCount: { increment: 1 } },
       });
 
+      await NotificationService.create({
+        senderId: request.user.id,
+        receiverId: post.userId,
+        type: 'COMMENT',
+        title: 'New comment',
+        content: `${request.user.username} commented on your post`,
+        data: { postId: id, commentId: comment.id },
+      });
+
+      // Resolve and notify @mentions in the comment
+      const mentions = await MentionService.syncCommentMentions(
+        { id: comment.id, postId: id, postOwnerId: post.userId },
+        content,
+        request.user
+      );
+
       loggerHelpers.logAuth('comment_added', request.user.id, {
         postId: id,
         commentId: comment.id,
@@ -88,7 +120,7 @@ export class CommentController {
       return reply.status(201).send({
         success: true,
         message: 'Comment added successfully',
-        data: comment,
+        data: { ...comment, mentions },
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -125,6 +157,7 @@ export class CommentController {
         where: { id },
         select: {
           id: true,
+          user: { select: { id: true, isPrivate: true } },
           commentsEnabled: true,
         },
       });
@@ -138,6 +171,16 @@ export class CommentController {
         });
       }
 
+      // Check if user has access to the post
+      if (!(await VisibilityService.canView(request.user?.id, post.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this post',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       if (!post.commentsEnabled) {
         return reply.status(400).send({
           success: false,
@@ -163,6 +206,7 @@ export class CommentController {
               isVerified: true,
             },
           },
+          mentions: mentionsInclude,
           _count: {
             select: {
               replies: true,
@@ -210,6 +254,11 @@ export class CommentController {
         });
       }
 
+      // Flatten mentions into the mentioned users
+      comments.forEach((comment) => {
+        (comment as any).mentions = MentionService.format(comment.mentions);
+      });
+
       return reply.send({
         success: true,
         message: 'Post comments retrieved successfully',
@@ -264,7 +313,11 @@ export class CommentController {
       // Check if comment exists and belongs to user
       const comment = await prisma.comment.findUnique({
         where: { id },
-        select: { userId: true },
+        select: {
+          userId: true,
+          postId: true,
+          post: { select: { userId: true } },
+        },
       });
 
       if (!comment) {
@@ -302,6 +355,13 @@ export class CommentController {
         },
       });
 
+      // Re-resolve @mentions; only newly mentioned users are notified
+      const mentions = await MentionService.syncCommentMentions(
+        { id, postId: comment.postId, postOwnerId: comment.post.userId },
+        content,
+        request.user
+      );
+
       loggerHelpers.logAuth('comment_updated', request.user.id, {
         commentId: id,
       });
@@ -309,7 +369,7 @@ export class CommentController {
       return reply.send({
         success: true,
         message: 'Comment updated successfully',
-        data: updatedComment,
+        data: { ...updatedComment, mentions },
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -437,9 +497,12 @@ export class CommentController {
         where: { id },
         select: {
           id: true,
+          userId: true,
           postId: true,
           post: {
             select: {
+              user: { select: { id: true, isPrivate: true } },
+              userId: true,
               commentsEnabled: true,
             },
           },
@@ -455,6 +518,22 @@ export class CommentController {
         });
       }
 
+      // Check if user has access to the post and its commenter
+      if (
+        !(await VisibilityService.canView(
+          request.user.id,
+          parentComment.post.user
+        )) ||
+        (await BlockService.isBlocked(request.user.id, parentComment.userId))
+      ) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this comment',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       if (!parentComment.post.commentsEnabled) {
         return reply.status(400).send({
           success: false,
@@ -491,6 +570,30 @@ export class CommentController {
         data: { commentsCount: { increment: 1 } },
       });
 
+      await NotificationService.create({
+        senderId: request.user.id,
+        receiverId: parentComment.userId,
+        type: 'COMMENT',
+        title: 'New reply',
+        content: `${request.user.username} replied to your comment`,
+        data: {
+          postId: parentComment.postId,
+          commentId: newReply.id,
+          parentId: id,
+        },
+      });
+
+      // Resolve and notify @mentions in the reply
+      const mentions = await MentionService.syncCommentMentions(
+        {
+          id: newReply.id,
+          postId: parentComment.postId,
+          postOwnerId: parentComment.post.userId,
+        },
+        content,
+        request.user
+      );
+
       loggerHelpers.logAuth('comment_reply_added', request.user.id, {
         postId: parentComment.postId,
         commentId: id,
@@ -500,7 +603,7 @@ export class CommentController {
       return reply.status(201).send({
         success: true,
         message: 'Reply added successfully',
-        data: newReply,
+        data: { ...newReply, mentions },
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -539,6 +642,7 @@ export class CommentController {
           id: true,
           post: {
             select: {
+              user: { select: { id: true, isPrivate: true } },
               commentsEnabled: true,
             },
           },
@@ -554,6 +658,18 @@ export class CommentController {
         });
       }
 
+      // Check if user has access to the post
+      if (
+        !(await VisibilityService.canView(request.user?.id, comment.post.user))
+      ) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this post',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       if (!comment.post.commentsEnabled) {
         return reply.status(400).send({
           success: false,
@@ -576,6 +692,7 @@ export class CommentController {
               isVerified: true,
             },
           },
+          mentions: mentionsInclude,
         },
         orderBy: {
           createdAt: 'asc',
@@ -613,6 +730,11 @@ export class CommentController {
         });
       }
 
+      // Flatten mentions into the mentioned users
+      replies.forEach((reply) => {
+        (reply as any).mentions = MentionService.format(reply.mentions);
+      });
+
       return reply.send({
         success: true,
         message: 'Comment replies retrieved successfully',
@@ -665,8 +787,11 @@ export class CommentController {
         where: { id },
         select: {
           id: true,
+          userId: true,
+          postId: true,
           post: {
             select: {
+              user: { select: { id: true, isPrivate: true } },
               commentsEnabled: true,
             },
           },
@@ -682,6 +807,22 @@ export class CommentController {
         });
       }
 
+      // Check if user has access to the post and its commenter
+      if (
+        !(await VisibilityService.canView(
+          request.user.id,
+          comment.post.user
+        )) ||
+        (await BlockService.isBlocked(request.user.id, comment.userId))
+      ) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this comment',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       if (!comment.post.commentsEnabled) {
         return reply.status(400).send({
           success: false,
@@ -724,6 +865,15 @@ export class CommentController {
         data: { likesCount: { increment: 1 } },
       });
 
+      await NotificationService.create({
+        senderId: request.user.id,
+        receiverId: comment.userId,
+        type: 'LIKE',
+        title: 'New like',
+        content: `${request.user.username} liked your comment`,
+        data: { postId: comment.postId, commentId: id },
+      });
+
       loggerHelpers.logAuth('comment_liked', request.user.id, {
         commentId: id,
       });
@@ -3,6 +3,7 @@ import { prisma } from '../config/database';
 import { ApiResponse } from '../types';
 import { ConversationType, MemberRole } from '@prisma/client';
 import { socketHelpers } from '../config/socket';
+import { BlockService } from '../services/block.service';
 
 export class ConversationController {
   // Get user's conversations
@@ -111,6 +112,17 @@ export class ConversationController {
         });
       }
 
+      // Users who blocked each other cannot be in a conversation together
+      const blockedIds = await BlockService.getBlockedUserIds(request.user.id);
+      if (participants.some((userId) => blockedIds.includes(userId))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot start a conversation with a blocked user',
+          error: 'USER_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Check if direct conversation already exists
       if (type === 'DIRECT') {
         const existingConversation = await prisma.conversation.findFirst({
@@ -473,6 +485,17 @@ export class ConversationController {
         });
       }
 
+      // Users who blocked each other cannot be in a conversation together
+      const blockedIds = await BlockService.getBlockedUserIds(request.user.id);
+      if (userIds.some((userId) => blockedIds.includes(userId))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot add a blocked user to this conversation',
+          error: 'USER_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Add members
       const newMembers = await prisma.conversationMember.createMany({
         data: userIds.map((userId) => ({
@@ -0,0 +1,675 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { DraftStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { loggerHelpers } from '../utils/logger';
+import { DraftService, draftInclude } from '../services/draft.service';
+import {
+  PostMediaService,
+  UploadedPostMedia,
+} from '../services/post-media.service';
+import {
+  NotFoundError,
+  StorageQuotaError,
+  ValidationError,
+} from '../middleware/errorHandler';
+import type {
+  ApiResponse,
+  ScheduleDraftRequest,
+  UpdateDraftRequest,
+} from '../types';
+
+// Multipart form fields that are booleans, sent as 'true' or 'false'
+const booleanField = (value: string | undefined): boolean | undefined =>
+  value === undefined ? undefined : value === 'true';
+
+// Comma-separated IDs of chunked uploads, in order
+const uploadIdsField = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+// Drafts are only ever visible to their owner. Other users' drafts are
+// reported as not found.
+export class DraftController {
+  // Save a draft, scheduling it if a publish time is given
+  static async createDraft(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    let media: UploadedPostMedia[] = [];
+
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Store every file of the multipart request in order
+      const received = await PostMediaService.receive(request, request.user.id);
+      const { fields } = received;
+      media = received.media;
+
+      if (fields.caption && fields.caption.length > 2200) {
+        throw new ValidationError('Caption must not exceed 2200 characters');
+      }
+
+      const draft = await DraftService.create(
+        request.user.id,
+        {
+          caption: fields.caption,
+          location: fields.location,
+          commentsEnabled: booleanField(fields.commentsEnabled),
+          likesEnabled: booleanField(fields.likesEnabled),
+        },
+        media,
+        uploadIdsField(fields.mediaIds),
+        fields.publishAt
+          ? DraftService.parsePublishAt(fields.publishAt)
+          : undefined
+      );
+
+      loggerHelpers.logAuth('draft_created', request.user.id, {
+        draftId: draft.id,
+        status: draft.status,
+      });
+
+      return reply.status(201).send({
+        success: true,
+        message:
+          draft.status === DraftStatus.SCHEDULED
+            ? 'Post scheduled successfully'
+            : 'Draft saved successfully',
+        data: draft,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      await PostMediaService.discard(media);
+
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: 'VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (error instanceof NotFoundError) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Media not found or already used',
+          error: 'MEDIA_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (error instanceof StorageQuotaError) {
+        return reply.status(413).send({
+          success: false,
+          message: error.message,
+          error: 'STORAGE_QUOTA_EXCEEDED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      loggerHelpers.logError(error as Error, {
+        action: 'create_draft',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to save draft',
+        error: 'CREATE_DRAFT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get the current user's drafts, or only those with the given status.
+  // Scheduled posts come first, soonest first, then drafts by last edit.
+  static async getDrafts(
+    request: FastifyRequest<{
+      Querystring: { status?: DraftStatus; page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { status, page = 1, limit = 20 } = request.query;
+      const where = { userId: request.user.id, ...(status ? { status } : {}) };
+
+      const [items, total] = await Promise.all([
+        prisma.postDraft.findMany({
+          where,
+          include: draftInclude,
+          orderBy: [
+            { publishAt: { sort: 'asc', nulls: 'last' } },
+            { updatedAt: 'desc' },
+          ],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        prisma.postDraft.count({ where }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: {
+          items,
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_drafts',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get drafts',
+        error: 'GET_DRAFTS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get a draft
+  static async getDraft(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const draft = await DraftService.findOwn(
+        request.params.id,
+        request.user.id
+      );
+
+      if (!draft) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Draft not found',
+          error: 'DRAFT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: draft,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_draft',
+        userId: request.user?.id,
+        draftId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get draft',
+        error: 'GET_DRAFT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Edit a draft or scheduled post: its fields, and which of its media
+  // it keeps in which order
+  static async updateDraft(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: UpdateDraftRequest;
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const draft = await DraftService.findOwn(
+        request.params.id,
+        request.user.id
+      );
+
+      if (!draft) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Draft not found',
+          error: 'DRAFT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { mediaIds, ...fields } = request.body;
+      const updated = await DraftService.update(draft, fields, mediaIds);
+
+      return reply.send({
+        success: true,
+        message: 'Draft updated successfully',
+        data: updated,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: 'VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      loggerHelpers.logError(error as Error, {
+        action: 'update_draft',
+        userId: request.user?.id,
+        draftId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to update draft',
+        error: 'UPDATE_DRAFT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Add files and chunked uploads to the end of a draft's media
+  static async addDraftMedia(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    let media: UploadedPostMedia[] = [];
+
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const draft = await DraftService.findOwn(
+        request.params.id,
+        request.user.id
+      );
+
+      if (!draft) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Draft not found',
+          error: 'DRAFT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const received = await PostMediaService.receive(request, request.user.id);
+      media = received.media;
+      const mediaIds = uploadIdsField(received.fields.mediaIds);
+
+      if (media.length === 0 && mediaIds.length === 0) {
+        return reply.status(400).send({
+          success: false,
+          message: 'No file uploaded',
+          error: 'NO_FILE',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const updated = await DraftService.addMedia(draft, media, mediaIds);
+
+      return reply.status(201).send({
+        success: true,
+        message: 'Media added successfully',
+        data: updated,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      await PostMediaService.discard(media);
+
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: 'VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (error instanceof NotFoundError) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Media not found or already used',
+          error: 'MEDIA_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (error instanceof StorageQuotaError) {
+        return reply.status(413).send({
+          success: false,
+          message: error.message,
+          error: 'STORAGE_QUOTA_EXCEEDED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      loggerHelpers.logError(error as Error, {
+        action: 'add_draft_media',
+        userId: request.user?.id,
+        draftId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to add media',
+        error: 'ADD_DRAFT_MEDIA_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Schedule a draft, or reschedule a scheduled post
+  static async scheduleDraft(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: ScheduleDraftRequest;
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const draft = await DraftService.findOwn(
+        request.params.id,
+        request.user.id
+      );
+
+      if (!draft) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Draft not found',
+          error: 'DRAFT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const scheduled = await DraftService.schedule(
+        draft,
+        DraftService.parsePublishAt(request.body.publishAt)
+      );
+
+      loggerHelpers.logAuth('post_scheduled', request.user.id, {
+        draftId: draft.id,
+        publishAt: scheduled.publishAt,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Post scheduled successfully',
+        data: scheduled,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: 'VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      loggerHelpers.logError(error as Error, {
+        action: 'schedule_draft',
+        userId: request.user?.id,
+        draftId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to schedule post',
+        error: 'SCHEDULE_DRAFT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Cancel a scheduled post, keeping it as a draft
+  static async unscheduleDraft(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const draft = await DraftService.findOwn(
+        request.params.id,
+        request.user.id
+      );
+
+      if (!draft) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Draft not found',
+          error: 'DRAFT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (draft.status !== DraftStatus.SCHEDULED) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Post is not scheduled',
+          error: 'NOT_SCHEDULED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const unscheduled = await DraftService.unschedule(draft);
+
+      loggerHelpers.logAuth('post_unscheduled', request.user.id, {
+        draftId: draft.id,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Scheduled post cancelled',
+        data: unscheduled,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'unschedule_draft',
+        userId: request.user?.id,
+        draftId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to cancel scheduled post',
+        error: 'UNSCHEDULE_DRAFT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Publish a draft or scheduled post now
+  static async publishDraft(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const draft = await DraftService.findOwn(
+        request.params.id,
+        request.user.id
+      );
+
+      if (!draft) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Draft not found',
+          error: 'DRAFT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const post = await DraftService.publish(draft);
+
+      if (!post) {
+        return reply.status(409).send({
+          success: false,
+          message: 'Draft was changed or published meanwhile',
+          error: 'DRAFT_CHANGED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return reply.status(201).send({
+        success: true,
+        message: 'Post published successfully',
+        data: post,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: 'VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      loggerHelpers.logError(error as Error, {
+        action: 'publish_draft',
+        userId: request.user?.id,
+        draftId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to publish post',
+        error: 'PUBLISH_DRAFT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Delete a draft or scheduled post along with its media
+  static async deleteDraft(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const draft = await DraftService.findOwn(
+        request.params.id,
+        request.user.id
+      );
+
+      if (!draft) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Draft not found',
+          error: 'DRAFT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await DraftService.remove(draft);
+
+      loggerHelpers.logAuth('draft_deleted', request.user.id, {
+        draftId: draft.id,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Draft deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'delete_draft',
+        userId: request.user?.id,
+        draftId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to delete draft',
+        error: 'DELETE_DRAFT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+}
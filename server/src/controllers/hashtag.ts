@@ -2,13 +2,19 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../config/database';
 import { ApiResponse, Hashtag } from '../types';
 import { ValidationUtils } from '../utils/helpers';
+import { TREND_WINDOWS, TrendWindowKey } from '../services/hashtag.service';
+import { VisibilityService } from '../services/visibility.service';
 import logger from '../utils/logger';
 
 export class HashtagController {
   // Get trending hashtags
   static async getTrendingHashtags(
     request: FastifyRequest<{
-      Querystring: { page?: number; limit?: number };
+      Querystring: {
+        page?: number;
+        limit?: number;
+        window?: TrendWindowKey | 'all';
+      };
     }>,
     reply: FastifyReply
   ): Promise<ApiResponse<{ hashtags: Hashtag[]; pagination: any }>> {
@@ -16,19 +22,67 @@ export class HashtagController {
       const page = Number(request.query.page) || 1;
       const limit = Number(request.query.limit) || 10;
       const skip = (page - 1) * limit;
+      const window = request.query.window || '24h';
 
-      // Get total count
-      const total = await prisma.hashtag.count();
+      if (window === 'all') {
+        // Get total count
+        const total = await prisma.hashtag.count();
 
-      // Get trending hashtags (sorted by postsCount)
-      const hashtags = await prisma.hashtag.findMany({
+        // Get all-time hashtags (sorted by postsCount)
+        const hashtags = await prisma.hashtag.findMany({
+          skip,
+          take: limit,
+          orderBy: {
+            postsCount: 'desc',
+          },
+        });
+
+        return reply.send({
+          success: true,
+          data: {
+            hashtags,
+            pagination: {
+              total,
+              page,
+              limit,
+              pages: Math.ceil(total / limit),
+            },
+          },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (!TREND_WINDOWS[window]) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Invalid trending window',
+          error: 'INVALID_TRENDING_WINDOW',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Scores are precomputed periodically by the trending hashtags job
+      const where = { window: TREND_WINDOWS[window].window };
+
+      const total = await prisma.hashtagTrend.count({ where });
+
+      const trends = await prisma.hashtagTrend.findMany({
+        where,
+        include: {
+          hashtag: true,
+        },
         skip,
         take: limit,
-        orderBy: {
-          postsCount: 'desc',
-        },
+        orderBy: [{ score: 'desc' }, { postsCount: 'desc' }],
       });
 
+      const hashtags = trends.map((trend) => ({
+        ...trend.hashtag,
+        score: trend.score,
+        recentPostsCount: trend.postsCount,
+        computedAt: trend.computedAt,
+      }));
+
       return reply.send({
         success: true,
         data: {
@@ -122,21 +176,23 @@ export class HashtagController {
         });
       }
 
+      // Only posts from accounts the viewer can see
+      const where = {
+        hashtags: {
+          some: {
+            hashtagId: hashtag.id,
+          },
+        },
+        isArchived: false,
+        user: VisibilityService.visibleOwnersWhere(request.user?.id),
+      };
+
       // Get total posts count
-      const total = await prisma.postHashtag.count({
-        where: { hashtagId: hashtag.id },
-      });
+      const total = await prisma.post.count({ where });
 
       // Get posts with hashtag
       const posts = await prisma.post.findMany({
-        where: {
-          hashtags: {
-            some: {
-              hashtagId: hashtag.id,
-            },
-          },
-          isArchived: false,
-        },
+        where,
         include: {
           user: {
             select: {
@@ -147,7 +203,9 @@ export class HashtagController {
               isVerified: true,
             },
           },
-          media: true,
+          media: {
+            orderBy: { order: 'asc' },
+          },
           likes: {
             select: {
               userId: true,
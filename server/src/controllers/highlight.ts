@@ -0,0 +1,386 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../config/database';
+import { loggerHelpers } from '../utils/logger';
+import { ArrayUtils } from '../utils/helpers';
+import { VisibilityService } from '../services/visibility.service';
+import {
+  HighlightService,
+  highlightStoriesInclude,
+} from '../services/highlight.service';
+import type {
+  ApiResponse,
+  CreateHighlightRequest,
+  UpdateHighlightRequest,
+} from '../types';
+
+export class HighlightController {
+  // Create a highlight from the current user's stories
+  static async createHighlight(
+    request: FastifyRequest<{ Body: CreateHighlightRequest }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const userId = request.user.id;
+      const { title, coverUrl } = request.body;
+      const storyIds = ArrayUtils.unique(request.body.storyIds);
+
+      // Only the owner's own stories can be highlighted
+      const foreignIds = await HighlightService.findForeignStoryIds(
+        userId,
+        storyIds
+      );
+
+      if (foreignIds.length > 0) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Highlights can only contain your own stories',
+          error: 'INVALID_HIGHLIGHT_STORIES',
+          details: { storyIds: foreignIds },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const highlight = await prisma.highlight.create({
+        data: {
+          userId,
+          title,
+          coverUrl,
+          stories: {
+            create: storyIds.map((storyId, position) => ({
+              storyId,
+              position,
+            })),
+          },
+        },
+        include: highlightStoriesInclude(userId),
+      });
+
+      return reply.status(201).send({
+        success: true,
+        message: 'Highlight created successfully',
+        data: HighlightService.format(highlight),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'create_highlight',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to create highlight',
+        error: 'CREATE_HIGHLIGHT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get a user's highlights for their profile. Expired stories are served
+  // here, subject to the same account and audience rules as live stories.
+  static async getUserHighlights(
+    request: FastifyRequest<{ Params: { userId: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      const { userId } = request.params;
+      const currentUserId = request.user?.id;
+
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, isPrivate: true },
+      });
+
+      if (!user) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User not found',
+          error: 'USER_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user has access to the highlights
+      if (!(await VisibilityService.canView(currentUserId, user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this user highlights',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const highlights = await prisma.highlight.findMany({
+        where: { userId },
+        include: highlightStoriesInclude(currentUserId),
+        orderBy: {
+          createdAt: 'desc',
+        },
+      });
+
+      // Highlights with nothing the viewer may see are left out
+      const visibleHighlights = highlights
+        .map((highlight) => HighlightService.format(highlight))
+        .filter(
+          (highlight) => highlight.storiesCount > 0 || currentUserId === userId
+        );
+
+      return reply.send({
+        success: true,
+        data: { highlights: visibleHighlights },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_user_highlights',
+        userId: request.user?.id,
+        targetUserId: request.params?.userId,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get highlights',
+        error: 'GET_HIGHLIGHTS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get a single highlight with its stories
+  static async getHighlight(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      const { id } = request.params;
+      const currentUserId = request.user?.id;
+
+      const highlight = await prisma.highlight.findUnique({
+        where: { id },
+        include: highlightStoriesInclude(currentUserId),
+      });
+
+      if (!highlight) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Highlight not found',
+          error: 'HIGHLIGHT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user has access to the highlight
+      if (!(await VisibilityService.canView(currentUserId, highlight.userId))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this highlight',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Hide highlights with nothing the viewer may see
+      const formatted = HighlightService.format(highlight);
+
+      if (formatted.storiesCount === 0 && currentUserId !== highlight.userId) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Highlight not found',
+          error: 'HIGHLIGHT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return reply.send({
+        success: true,
+        data: formatted,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_highlight',
+        userId: request.user?.id,
+        highlightId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get highlight',
+        error: 'GET_HIGHLIGHT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Update a highlight's title, cover or ordered stories
+  static async updateHighlight(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: UpdateHighlightRequest;
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const { title, coverUrl } = request.body;
+      const userId = request.user.id;
+
+      const existing = await prisma.highlight.findUnique({
+        where: { id },
+        select: { userId: true },
+      });
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Highlight not found',
+          error: 'HIGHLIGHT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (existing.userId !== userId) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Not authorized to update this highlight',
+          error: 'NOT_AUTHORIZED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (request.body.storyIds) {
+        const storyIds = ArrayUtils.unique(request.body.storyIds);
+
+        const foreignIds = await HighlightService.findForeignStoryIds(
+          userId,
+          storyIds
+        );
+
+        if (foreignIds.length > 0) {
+          return reply.status(400).send({
+            success: false,
+            message: 'Highlights can only contain your own stories',
+            error: 'INVALID_HIGHLIGHT_STORIES',
+            details: { storyIds: foreignIds },
+            timestamp: new Date().toISOString(),
+          });
+        }
+
+        await HighlightService.setStories(id, storyIds);
+      }
+
+      // A null cover falls back to the first story again
+      const highlight = await prisma.highlight.update({
+        where: { id },
+        data: {
+          ...(title !== undefined ? { title } : {}),
+          ...(coverUrl !== undefined ? { coverUrl } : {}),
+        },
+        include: highlightStoriesInclude(userId),
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Highlight updated successfully',
+        data: HighlightService.format(highlight),
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'update_highlight',
+        userId: request.user?.id,
+        highlightId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to update highlight',
+        error: 'UPDATE_HIGHLIGHT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Delete a highlight; its stories are kept
+  static async deleteHighlight(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+
+      const highlight = await prisma.highlight.findUnique({
+        where: { id },
+        select: { userId: true },
+      });
+
+      if (!highlight) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Highlight not found',
+          error: 'HIGHLIGHT_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (highlight.userId !== request.user.id) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Not authorized to delete this highlight',
+          error: 'NOT_AUTHORIZED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await prisma.highlight.delete({
+        where: { id },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Highlight deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'delete_highlight',
+        userId: request.user?.id,
+        highlightId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to delete highlight',
+        error: 'DELETE_HIGHLIGHT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+}
@@ -1,10 +1,15 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../config/database';
 import { ApiResponse } from '../types';
-import { MessageType, Prisma } from '@prisma/client';
+import { MessageType, Prisma, UploadPurpose } from '@prisma/client';
 import { socketHelpers } from '../config/socket';
-import path from 'path';
-import fs from 'fs/promises';
+import { BlockService } from '../services/block.service';
+import { ConversationService } from '../services/conversation.service';
+import { StoryService, storyReplySelect } from '../services/story.service';
+import { MediaAssetService } from '../services/media-asset.service';
+import { UploadService } from '../services/upload.service';
+import { StorageQuotaService } from '../services/storage-quota.service';
+import { NotFoundError, StorageQuotaError } from '../middleware/errorHandler';
 
 export class MessageController {
   // Get conversation messages
@@ -87,6 +92,9 @@ export class MessageController {
               },
             },
           },
+          story: {
+            select: storyReplySelect,
+          },
         },
         orderBy: {
           createdAt: 'desc',
@@ -115,11 +123,25 @@ export class MessageController {
         },
       });
 
+      // Story replies carry a preview, or a placeholder once the story
+      // is gone
+      const items = messages.map(({ story, ...message }) =>
+        message.messageType === 'STORY_REPLY'
+          ? {
+              ...message,
+              storyReply: StoryService.formatStoryReply({
+                storyId: message.storyId,
+                story,
+              }),
+            }
+          : message
+      );
+
       return reply.send({
         success: true,
         message: 'Conversation messages retrieved successfully',
         data: {
-          items: messages,
+          items,
           total,
           page,
           limit,
@@ -148,6 +170,7 @@ export class MessageController {
         content?: string;
         type?: MessageType;
         replyToId?: string;
+        mediaId?: string;
       };
     }>,
     reply: FastifyReply
@@ -163,7 +186,7 @@ export class MessageController {
       }
 
       const { id } = request.params;
-      const { content, type = 'TEXT', replyToId } = request.body;
+      const { content, type = 'TEXT', replyToId, mediaId } = request.body;
 
       // Check if user is a member of the conversation
       const membership = await prisma.conversationMember.findFirst({
@@ -183,39 +206,63 @@ export class MessageController {
         });
       }
 
-      // Create message
-      const message = await prisma.message.create({
-        data: {
-          conversationId: id,
-          senderId: request.user.id,
-          content,
-          messageType: type,
-          replyToId,
-        },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              username: true,
-              fullName: true,
-              avatar: true,
-              isVerified: true,
-            },
+      // Blocked users cannot message each other directly
+      if (await MessageController.isBlockedConversation(id, request.user.id)) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot send messages to this user',
+          error: 'USER_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Create message; media from a chunked upload sets its type
+      const senderId = request.user.id;
+      const message = await prisma.$transaction(async (tx) => {
+        const [upload] = mediaId
+          ? await UploadService.claim(
+              tx,
+              [mediaId],
+              senderId,
+              UploadPurpose.MESSAGE
+            )
+          : [];
+        await MediaAssetService.retain([upload?.url], tx);
+
+        return tx.message.create({
+          data: {
+            conversationId: id,
+            senderId,
+            content,
+            messageType: upload ? upload.mediaType! : type,
+            mediaUrl: upload?.url,
+            replyToId,
           },
-          replyTo: {
-            include: {
-              sender: {
-                select: {
-                  id: true,
-                  username: true,
-                  fullName: true,
-                  avatar: true,
-                  isVerified: true,
+          include: {
+            sender: {
+              select: {
+                id: true,
+                username: true,
+                fullName: true,
+                avatar: true,
+                isVerified: true,
+              },
+            },
+            replyTo: {
+              include: {
+                sender: {
+                  select: {
+                    id: true,
+                    username: true,
+                    fullName: true,
+                    avatar: true,
+                    isVerified: true,
+                  },
                 },
               },
             },
           },
-        },
+        });
       });
 
       // Update conversation last message
@@ -237,6 +284,15 @@ export class MessageController {
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof NotFoundError) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Media not found or already used',
+          error: 'MEDIA_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       console.error('Error sending message:', error);
       return reply.status(500).send({
         success: false,
@@ -395,15 +451,32 @@ export class MessageController {
         });
       }
 
-      // Soft delete message
-      await prisma.message.update({
-        where: { id },
+      // Soft delete message, letting go of its media. A concurrent delete
+      // of the same message finds nothing left to delete.
+      const { count } = await prisma.message.updateMany({
+        where: {
+          id,
+          senderId: request.user.id,
+          isDeleted: false,
+        },
         data: {
           isDeleted: true,
           content: null,
+          mediaUrl: null,
         },
       });
 
+      if (count === 0) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Message not found or you are not authorized to delete it',
+          error: 'MESSAGE_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await MediaAssetService.release([message.mediaUrl]);
+
       // Update conversation last message if this was the last message
       if (message.id === message.conversation.lastMessageId) {
         const newLastMessage = await prisma.message.findFirst({
@@ -749,6 +822,21 @@ export class MessageController {
         });
       }
 
+      // Blocked users cannot message each other directly
+      if (
+        await MessageController.isBlockedConversation(
+          conversationId,
+          request.user.id
+        )
+      ) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot send messages to this user',
+          error: 'USER_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Create message
       const message = await prisma.message.create({
         data: {
@@ -874,8 +962,31 @@ export class MessageController {
         });
       }
 
+      // Blocked users cannot message each other directly
+      if (
+        await MessageController.isBlockedConversation(
+          conversationId,
+          request.user.id
+        )
+      ) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot send messages to this user',
+          error: 'USER_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Save file
-      const mediaUrl = await MessageController.saveFile(data, 'images');
+      const mediaUrl = await MessageController.saveFile(
+        data,
+        'images',
+        request.user.id
+      );
+
+      // Count the reference up front: a failed send then leaves the file
+      // unused rather than deleted while in use
+      await MediaAssetService.retain([mediaUrl]);
 
       // Create message
       const message = await prisma.message.create({
@@ -916,6 +1027,15 @@ export class MessageController {
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof StorageQuotaError) {
+        return reply.status(413).send({
+          success: false,
+          message: error.message,
+          error: 'STORAGE_QUOTA_EXCEEDED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       console.error('Error sending image message:', error);
       return reply.status(500).send({
         success: false,
@@ -990,8 +1110,31 @@ export class MessageController {
         });
       }
 
+      // Blocked users cannot message each other directly
+      if (
+        await MessageController.isBlockedConversation(
+          conversationId,
+          request.user.id
+        )
+      ) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot send messages to this user',
+          error: 'USER_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Save file
-      const mediaUrl = await MessageController.saveFile(data, 'videos');
+      const mediaUrl = await MessageController.saveFile(
+        data,
+        'videos',
+        request.user.id
+      );
+
+      // Count the reference up front: a failed send then leaves the file
+      // unused rather than deleted while in use
+      await MediaAssetService.retain([mediaUrl]);
 
       // Create message
       const message = await prisma.message.create({
@@ -1032,6 +1175,15 @@ export class MessageController {
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof StorageQuotaError) {
+        return reply.status(413).send({
+          success: false,
+          message: error.message,
+          error: 'STORAGE_QUOTA_EXCEEDED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       console.error('Error sending video message:', error);
       return reply.status(500).send({
         success: false,
@@ -1105,8 +1257,31 @@ export class MessageController {
         });
       }
 
+      // Blocked users cannot message each other directly
+      if (
+        await MessageController.isBlockedConversation(
+          conversationId,
+          request.user.id
+        )
+      ) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot send messages to this user',
+          error: 'USER_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Save file
-      const mediaUrl = await MessageController.saveFile(data, 'audio');
+      const mediaUrl = await MessageController.saveFile(
+        data,
+        'audio',
+        request.user.id
+      );
+
+      // Count the reference up front: a failed send then leaves the file
+      // unused rather than deleted while in use
+      await MediaAssetService.retain([mediaUrl]);
 
       // Create message
       const message = await prisma.message.create({
@@ -1146,6 +1321,15 @@ export class MessageController {
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof StorageQuotaError) {
+        return reply.status(413).send({
+          success: false,
+          message: error.message,
+          error: 'STORAGE_QUOTA_EXCEEDED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       console.error('Error sending audio message:', error);
       return reply.status(500).send({
         success: false,
@@ -1200,6 +1384,21 @@ export class MessageController {
         });
       }
 
+      // Blocked users cannot message each other directly
+      if (
+        await MessageController.isBlockedConversation(
+          conversationId,
+          request.user.id
+        )
+      ) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot send messages to this user',
+          error: 'USER_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Create location content
       const locationData = {
         latitude,
@@ -1297,6 +1496,21 @@ export class MessageController {
         });
       }
 
+      // Blocked users cannot message each other directly
+      if (
+        await MessageController.isBlockedConversation(
+          conversationId,
+          request.user.id
+        )
+      ) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot send messages to this user',
+          error: 'USER_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Check if post exists
       const post = await prisma.post.findFirst({
         where: {
@@ -1398,18 +1612,46 @@ export class MessageController {
     }
   }
 
-  // Helper method to save files
-  private static async saveFile(data: any, folder: string): Promise<string> {
-    const uploadDir = path.join(process.cwd(), 'uploads', folder);
-    await fs.mkdir(uploadDir, { recursive: true });
+  // Helper method to save files, within the sender's storage quota
+  private static async saveFile(
+    data: any,
+    folder: string,
+    userId: string
+  ): Promise<string> {
+    const buffer = await data.toBuffer();
+    await StorageQuotaService.assertAvailable(userId, buffer.length);
+
+    const stored = await MediaAssetService.store(buffer, {
+      folder: `messages/${folder}`,
+      contentType: data.mimetype,
+      originalName: data.filename,
+    });
+
+    return stored.url;
+  }
 
-    const filename = `${Date.now()}-${data.filename}`;
-    const filepath = path.join(uploadDir, filename);
+  // Helper method to check for a block between direct conversation members
+  private static async isBlockedConversation(
+    conversationId: string,
+    userId: string
+  ): Promise<boolean> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      select: {
+        type: true,
+        members: {
+          where: { userId: { not: userId } },
+          select: { userId: true },
+        },
+      },
+    });
 
-    const buffer = Buffer.from(await data.file.arrayBuffer());
-    await fs.writeFile(filepath, buffer);
+    if (!conversation || conversation.type !== 'DIRECT') return false;
 
-    return `/uploads/${folder}/${filename}`;
+    const blockedIds = await BlockService.getBlockedUserIds(userId);
+    return conversation.members.some((member) =>
+      blockedIds.includes(member.userId)
+    );
   }
 
   // Helper method to update conversation
@@ -1418,13 +1660,6 @@ export class MessageController {
     messageId: string,
     lastMessageText: string
   ): Promise<void> {
-    await prisma.conversation.update({
-      where: { id: conversationId },
-      data: {
-        lastMessageId: messageId,
-        lastMessageAt: new Date(),
-        lastMessageText,
-      },
-    });
+    await ConversationService.touch(conversationId, messageId, lastMessageText);
   }
 }
@@ -0,0 +1,345 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../config/database';
+import { loggerHelpers } from '../utils/logger';
+import { notificationSenderSelect } from '../services/notification.service';
+import type { ApiResponse, MarkNotificationsReadRequest } from '../types';
+
+export class NotificationController {
+  // Get current user's notifications
+  static async getNotifications(
+    request: FastifyRequest<{
+      Querystring: { page?: number; limit?: number; unreadOnly?: boolean };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { page = 1, limit = 20, unreadOnly = false } = request.query;
+      const skip = (page - 1) * limit;
+
+      const where = {
+        receiverId: request.user.id,
+        ...(unreadOnly ? { isRead: false } : {}),
+      };
+
+      const notifications = await prisma.notification.findMany({
+        where,
+        include: {
+          sender: {
+            select: notificationSenderSelect,
+          },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        skip,
+        take: limit,
+      });
+
+      // Get total count
+      const total = await prisma.notification.count({ where });
+
+      return reply.send({
+        success: true,
+        message: 'Notifications retrieved successfully',
+        data: {
+          items: notifications,
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrevious: page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_notifications',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get notifications',
+        error: 'GET_NOTIFICATIONS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get unread notifications count
+  static async getUnreadCount(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<ApiResponse<{ count: number }>> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const count = await prisma.notification.count({
+        where: {
+          receiverId: request.user.id,
+          isRead: false,
+        },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Unread count retrieved successfully',
+        data: { count },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_unread_notifications_count',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get unread count',
+        error: 'GET_UNREAD_COUNT_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Mark single notification as read
+  static async markAsRead(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+
+      // Check if notification exists and belongs to user
+      const notification = await prisma.notification.findUnique({
+        where: { id },
+        select: { receiverId: true },
+      });
+
+      if (!notification) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Notification not found',
+          error: 'NOTIFICATION_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (notification.receiverId !== request.user.id) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this notification',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await prisma.notification.update({
+        where: { id },
+        data: { isRead: true },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Notification marked as read',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'mark_notification_read',
+        userId: request.user?.id,
+        notificationId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to mark notification as read',
+        error: 'MARK_NOTIFICATION_READ_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Mark several notifications as read
+  static async markManyAsRead(
+    request: FastifyRequest<{ Body: MarkNotificationsReadRequest }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse<{ updated: number }>> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { notificationIds } = request.body;
+
+      // Only the receiver's own notifications are touched
+      const result = await prisma.notification.updateMany({
+        where: {
+          id: { in: notificationIds },
+          receiverId: request.user.id,
+        },
+        data: { isRead: true },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Notifications marked as read',
+        data: { updated: result.count },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'mark_notifications_read',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to mark notifications as read',
+        error: 'MARK_NOTIFICATIONS_READ_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Mark all notifications as read
+  static async markAllAsRead(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<ApiResponse<{ updated: number }>> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const result = await prisma.notification.updateMany({
+        where: {
+          receiverId: request.user.id,
+          isRead: false,
+        },
+        data: { isRead: true },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'All notifications marked as read',
+        data: { updated: result.count },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'mark_all_notifications_read',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to mark all notifications as read',
+        error: 'MARK_ALL_NOTIFICATIONS_READ_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Delete notification
+  static async deleteNotification(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+
+      // Check if notification exists and belongs to user
+      const notification = await prisma.notification.findUnique({
+        where: { id },
+        select: { receiverId: true },
+      });
+
+      if (!notification) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Notification not found',
+          error: 'NOTIFICATION_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (notification.receiverId !== request.user.id) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot delete this notification',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await prisma.notification.delete({
+        where: { id },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Notification deleted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'delete_notification',
+        userId: request.user?.id,
+        notificationId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to delete notification',
+        error: 'DELETE_NOTIFICATION_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+}
@@ -1,19 +1,66 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { MultipartFile } from '@fastify/multipart';
-import { prisma } from '../config/database';
-import { CloudinaryService } from '../config/cloudinary';
-import logger, { loggerHelpers } from '../utils/logger';
+import { MediaType, UploadPurpose } from '@prisma/client';
+import { prisma, config } from '../config/database';
+import { loggerHelpers } from '../utils/logger';
+import { NotificationService } from '../services/notification.service';
+import { HashtagService } from '../services/hashtag.service';
+import { MentionService, mentionsInclude } from '../services/mention.service';
+import { VisibilityService } from '../services/visibility.service';
+import { MuteService } from '../services/mute.service';
+import {
+  PostMediaService,
+  MAX_POST_MEDIA,
+  MAX_POST_MEDIA_SIZE,
+} from '../services/post-media.service';
+import {
+  SavedPostService,
+  savedPostInclude,
+  visibleSavedPostWhere,
+} from '../services/saved-post.service';
+import { UploadService } from '../services/upload.service';
+import { MediaAssetService } from '../services/media-asset.service';
+import {
+  NotFoundError,
+  StorageQuotaError,
+  ValidationError,
+} from '../middleware/errorHandler';
 import type {
   ApiResponse,
   Post,
-  CreatePostRequest,
   UpdatePostRequest,
+  ReorderPostMediaRequest,
 } from '../types';
 
+// Comma-separated IDs of chunked uploads, in order
+const mediaIdsField = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map((mediaId) => mediaId.trim())
+    .filter(Boolean);
+
+// Refuse a new post from its form fields and number of files. Checked as
+// the files arrive, so a post that cannot be created stores none of the
+// files that come after its fields.
+const checkNewPost = (fields: Record<string, string>, files: number) => {
+  if (fields.caption && fields.caption.length > 2200) {
+    throw new ValidationError('Caption must not exceed 2200 characters', {
+      error: 'VALIDATION_ERROR',
+    });
+  }
+
+  if (files + mediaIdsField(fields.mediaIds).length > MAX_POST_MEDIA) {
+    throw new ValidationError(
+      `A post can have at most ${MAX_POST_MEDIA} media items`,
+      { error: 'TOO_MANY_MEDIA' }
+    );
+  }
+};
+
 export class PostController {
   // Create new post
   static async createPost(
-    request: FastifyRequest<{ Body: CreatePostRequest }>,
+    request: FastifyRequest,
     reply: FastifyReply
   ): Promise<ApiResponse<Post>> {
     try {
@@ -26,9 +73,18 @@ export class PostController {
         });
       }
 
-      // Handle multipart file upload
-      const data = await request.file();
-      if (!data) {
+      // Store every file of the multipart request in order, refusing the
+      // post before storing anything it cannot use
+      const { fields, media } = await PostMediaService.receive(
+        request,
+        request.user.id,
+        checkNewPost
+      );
+
+      // Media from chunked uploads follows the files, in the order given
+      const mediaIds = mediaIdsField(fields.mediaIds);
+
+      if (media.length === 0 && mediaIds.length === 0) {
         return reply.status(400).send({
           success: false,
           message: 'No file uploaded',
@@ -37,56 +93,81 @@ export class PostController {
         });
       }
 
-      const { caption, location } = request.body;
+      const { caption, location } = fields;
 
-      // Upload to Cloudinary using stream
-      const uploadResult = await CloudinaryService.uploadFile(
-        data.file,
-        {
-          folder: 'posts',
-          public_id: `post_${request.user.id}_${Date.now()}`,
-          transformation: [
-            { width: 1080, height: 1080, crop: 'fill', gravity: 'auto' },
-            { quality: 'auto' },
-          ],
-        },
-        'post'
-      );
+      // Create the post with all of its media, or nothing at all
+      let post;
+      try {
+        post = await prisma.$transaction(async (tx) => {
+          const uploads = await UploadService.claim(
+            tx,
+            mediaIds,
+            request.user!.id,
+            UploadPurpose.POST
+          );
+          const items = [...media, ...uploads.map(UploadService.toPostMedia)];
+          await MediaAssetService.retain(
+            items.map((item) => item.url),
+            tx
+          );
 
-      // Create post with media
-      const post = await prisma.post.create({
-        data: {
-          caption,
-          location,
-          userId: request.user.id,
-          media: {
-            create: {
-              url: uploadResult.url,
-              type: 'IMAGE',
-              width: 1080,
-              height: 1080,
+          const created = await tx.post.create({
+            data: {
+              caption,
+              location,
+              userId: request.user!.id,
+              media: {
+                create: items.map((item, order) => ({
+                  url: item.url,
+                  type: item.type,
+                  width: item.width,
+                  height: item.height,
+                  duration: item.duration,
+                  posterUrl: item.posterUrl,
+                  variants: PostMediaService.toJson(item.variants),
+                  placeholder: item.placeholder,
+                  order,
+                })),
+              },
             },
-          },
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              username: true,
-              fullName: true,
-              avatar: true,
-              isVerified: true,
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  username: true,
+                  fullName: true,
+                  avatar: true,
+                  isVerified: true,
+                },
+              },
+              media: {
+                orderBy: { order: 'asc' },
+              },
             },
-          },
-          media: true,
-        },
-      });
+          });
 
-      // Update user's post count
-      await prisma.user.update({
-        where: { id: request.user.id },
-        data: { postsCount: { increment: 1 } },
-      });
+          // Update user's post count
+          await tx.user.update({
+            where: { id: request.user!.id },
+            data: { postsCount: { increment: 1 } },
+          });
+
+          return created;
+        });
+      } catch (error) {
+        await PostMediaService.discard(media);
+        throw error;
+      }
+
+      // Index hashtags from caption
+      await HashtagService.syncPostHashtags(post.id, caption);
+
+      // Resolve and notify @mentions in caption
+      const mentions = await MentionService.syncPostMentions(
+        post.id,
+        caption,
+        request.user
+      );
 
       loggerHelpers.logAuth('post_created', request.user.id, {
         postId: post.id,
@@ -95,10 +176,37 @@ export class PostController {
       return reply.status(201).send({
         success: true,
         message: 'Post created successfully',
-        data: post,
+        data: { ...post, mentions },
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: error.details?.error ?? 'FILE_VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (error instanceof NotFoundError) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Media not found or already used',
+          error: 'MEDIA_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (error instanceof StorageQuotaError) {
+        return reply.status(413).send({
+          success: false,
+          message: error.message,
+          error: 'STORAGE_QUOTA_EXCEEDED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       loggerHelpers.logError(error as Error, {
         action: 'create_post',
         userId: request.user?.id,
@@ -135,7 +243,10 @@ export class PostController {
               isPrivate: true,
             },
           },
-          media: true,
+          media: {
+            orderBy: { order: 'asc' },
+          },
+          mentions: mentionsInclude,
           likes: {
             select: {
               userId: true,
@@ -159,24 +270,13 @@ export class PostController {
       }
 
       // Check if user has access to the post
-      if (post.user.isPrivate && currentUserId !== post.userId) {
-        const isFollowing = await prisma.follow.findUnique({
-          where: {
-            followerId_followingId: {
-              followerId: currentUserId!,
-              followingId: post.userId,
-            },
-          },
+      if (!(await VisibilityService.canView(currentUserId, post.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this post',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
         });
-
-        if (!isFollowing) {
-          return reply.status(403).send({
-            success: false,
-            message: 'Cannot access this post',
-            error: 'ACCESS_DENIED',
-            timestamp: new Date().toISOString(),
-          });
-        }
       }
 
       // Add isLiked flag if user is authenticated
@@ -186,6 +286,14 @@ export class PostController {
         );
       }
 
+      // Saves are private, so only the viewer's own save is reported
+      if (currentUserId) {
+        (post as any).isSaved = await SavedPostService.isSaved(
+          currentUserId,
+          id
+        );
+      }
+
       // Add likes and comments count
       (post as any).likesCount = post.likes.length;
       (post as any).commentsCount = post.comments.length;
@@ -194,6 +302,9 @@ export class PostController {
       delete (post as any).likes;
       delete (post as any).comments;
 
+      // Flatten mentions into the mentioned users
+      (post as any).mentions = MentionService.format(post.mentions);
+
       return reply.send({
         success: true,
         message: 'Post retrieved successfully',
@@ -261,6 +372,12 @@ export class PostController {
         });
       }
 
+      // Re-index hashtags and mentions when the caption changes
+      if (caption !== undefined) {
+        await HashtagService.syncPostHashtags(id, caption);
+        await MentionService.syncPostMentions(id, caption, request.user);
+      }
+
       // Update post
       const updatedPost = await prisma.post.update({
         where: { id },
@@ -278,7 +395,10 @@ export class PostController {
               isVerified: true,
             },
           },
-          media: true,
+          media: {
+            orderBy: { order: 'asc' },
+          },
+          mentions: mentionsInclude,
         },
       });
 
@@ -290,7 +410,10 @@ export class PostController {
       return reply.send({
         success: true,
         message: 'Post updated successfully',
-        data: updatedPost,
+        data: {
+          ...updatedPost,
+          mentions: MentionService.format(updatedPost.mentions),
+        },
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -352,19 +475,18 @@ export class PostController {
         });
       }
 
+      // Archived posts are already excluded from hashtag counts
+      if (!post.isArchived) {
+        await HashtagService.adjustPostsCount(id, -1);
+      }
+
       // Delete post (cascade will handle related data)
       await prisma.post.delete({
         where: { id },
       });
 
-      // Delete images from cloud storage
-      try {
-        for (const media of post.media) {
-          await CloudinaryService.deleteFile(media.url);
-        }
-      } catch (error) {
-        logger.error('Failed to delete post media from cloud storage:', error);
-      }
+      // Delete media files no longer used anywhere else
+      await MediaAssetService.release(post.media.map((media) => media.url));
 
       // Update user's post count
       await prisma.user.update({
@@ -414,7 +536,7 @@ export class PostController {
       // Check if user exists
       const user = await prisma.user.findUnique({
         where: { id: userId },
-        select: { isPrivate: true },
+        select: { id: true, isPrivate: true },
       });
 
       if (!user) {
@@ -427,24 +549,13 @@ export class PostController {
       }
 
       // Check if user has access to posts
-      if (user.isPrivate && currentUserId !== userId) {
-        const isFollowing = await prisma.follow.findUnique({
-          where: {
-            followerId_followingId: {
-              followerId: currentUserId!,
-              followingId: userId,
-            },
-          },
+      if (!(await VisibilityService.canView(currentUserId, user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this user posts',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
         });
-
-        if (!isFollowing) {
-          return reply.status(403).send({
-            success: false,
-            message: 'Cannot access this user posts',
-            error: 'ACCESS_DENIED',
-            timestamp: new Date().toISOString(),
-          });
-        }
       }
 
       // Get user's posts
@@ -463,7 +574,9 @@ export class PostController {
               isVerified: true,
             },
           },
-          media: true,
+          media: {
+            orderBy: { order: 'asc' },
+          },
           likes: {
             select: {
               userId: true,
@@ -569,7 +682,9 @@ export class PostController {
               isVerified: true,
             },
           },
-          media: true,
+          media: {
+            orderBy: { order: 'asc' },
+          },
           likes: {
             select: {
               userId: true,
@@ -636,6 +751,111 @@ export class PostController {
     }
   }
 
+  // Get home feed (posts from followed users and own posts)
+  static async getFeed(
+    request: FastifyRequest<{
+      Querystring: { cursor?: string; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { cursor } = request.query;
+      const limit = Number(request.query.limit) || 10;
+      const currentUserId = request.user.id;
+
+      // Only followed accounts (accepted follows) and the viewer are
+      // included, so private accounts show up only for their followers.
+      // Accounts whose posts the viewer muted are left out.
+      const [followedUsers, mutedUserIds] = await Promise.all([
+        prisma.follow.findMany({
+          where: { followerId: currentUserId },
+          select: { followingId: true },
+        }),
+        MuteService.getMutedUserIds(currentUserId, 'posts'),
+      ]);
+
+      const authorIds = [
+        currentUserId,
+        ...followedUsers
+          .map((f) => f.followingId)
+          .filter((userId) => !mutedUserIds.includes(userId)),
+      ];
+
+      // Fetch one extra post to know whether there is a next page
+      const posts = await prisma.post.findMany({
+        where: {
+          userId: { in: authorIds },
+          isArchived: false,
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              fullName: true,
+              avatar: true,
+              isVerified: true,
+              isPrivate: true,
+            },
+          },
+          media: {
+            orderBy: { order: 'asc' },
+          },
+          likes: {
+            where: { userId: currentUserId },
+            select: {
+              userId: true,
+            },
+          },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        take: limit + 1,
+      });
+
+      const hasNext = posts.length > limit;
+      const items = hasNext ? posts.slice(0, limit) : posts;
+
+      items.forEach((post) => {
+        (post as any).isLiked = post.likes.length > 0;
+        delete (post as any).likes;
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Feed retrieved successfully',
+        data: {
+          items,
+          limit,
+          hasNext,
+          nextCursor: hasNext ? items[items.length - 1].id : null,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_feed',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get feed',
+        error: 'GET_FEED_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   // Archive post
   static async archivePost(
     request: FastifyRequest<{ Params: { id: string } }>,
@@ -692,6 +912,8 @@ export class PostController {
         data: { isArchived: true },
       });
 
+      await HashtagService.adjustPostsCount(id, -1);
+
       loggerHelpers.logAuth('post_archived', request.user.id, {
         postId: id,
       });
@@ -773,6 +995,8 @@ export class PostController {
         data: { isArchived: false },
       });
 
+      await HashtagService.adjustPostsCount(id, 1);
+
       loggerHelpers.logAuth('post_unarchived', request.user.id, {
         postId: id,
       });
@@ -814,7 +1038,9 @@ export class PostController {
       }
 
       // Handle multipart file upload
-      const data = await request.file();
+      const data = await request.file({
+        limits: { fileSize: MAX_POST_MEDIA_SIZE },
+      });
       if (!data) {
         return reply.status(400).send({
           success: false,
@@ -824,32 +1050,34 @@ export class PostController {
         });
       }
 
-      // Upload to Cloudinary using stream
-      const uploadResult = await CloudinaryService.uploadFile(
-        data.file,
-        {
-          folder: 'posts',
-          public_id: `post_${request.user.id}_${Date.now()}`,
-          transformation: [
-            { width: 1080, height: 1080, crop: 'fill', gravity: 'auto' },
-            { quality: 'auto' },
-          ],
-        },
-        'post'
-      );
+      // Held as an upload until a post takes it or it expires
+      const upload = await UploadService.storeDirect(data, request.user.id);
 
       return reply.status(201).send({
         success: true,
         message: 'Media uploaded successfully',
-        data: {
-          url: uploadResult.url,
-          type: 'IMAGE',
-          width: 1080,
-          height: 1080,
-        },
+        data: UploadService.formatMedia(upload),
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: 'FILE_VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (error instanceof StorageQuotaError) {
+        return reply.status(413).send({
+          success: false,
+          message: error.message,
+          error: 'STORAGE_QUOTA_EXCEEDED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       loggerHelpers.logError(error as Error, {
         action: 'upload_post_media',
         userId: request.user?.id,
@@ -868,12 +1096,7 @@ export class PostController {
   static async addMedia(
     request: FastifyRequest<{
       Params: { id: string };
-      Body: {
-        url: string;
-        type: 'IMAGE' | 'VIDEO' | 'AUDIO';
-        width?: number;
-        height?: number;
-      };
+      Body: { url: string };
     }>,
     reply: FastifyReply
   ): Promise<ApiResponse> {
@@ -888,7 +1111,7 @@ export class PostController {
       }
 
       const { id } = request.params;
-      const { url, type, width, height } = request.body;
+      const { url } = request.body;
 
       // Check if post exists and belongs to user
       const post = await prisma.post.findUnique({
@@ -914,21 +1137,58 @@ export class PostController {
         });
       }
 
-      // Get current media count for ordering
+      // Get current media count for the carousel limit
       const mediaCount = await prisma.postMedia.count({
         where: { postId: id },
       });
 
-      // Add media to post
-      const media = await prisma.postMedia.create({
-        data: {
-          postId: id,
-          url,
-          type,
-          width,
-          height,
-          order: mediaCount,
-        },
+      if (mediaCount >= MAX_POST_MEDIA) {
+        return reply.status(400).send({
+          success: false,
+          message: `A post can have at most ${MAX_POST_MEDIA} media items`,
+          error: 'TOO_MANY_MEDIA',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Add media uploaded by the user to the end of the post, described
+      // by its upload rather than by the client
+      const order = await PostMediaService.nextOrder(id);
+      const media = await prisma.$transaction(async (tx) => {
+        const item = UploadService.toPostMedia(
+          await UploadService.claimUrl(
+            tx,
+            url,
+            request.user!.id,
+            UploadPurpose.POST
+          )
+        );
+
+        if (
+          item.type === MediaType.VIDEO &&
+          !PostMediaService.isAllowedDuration(item.duration)
+        ) {
+          throw new ValidationError(
+            `Videos can be at most ${config.upload.maxVideoDurationSeconds} seconds long`
+          );
+        }
+
+        await MediaAssetService.retain([item.url], tx);
+
+        return tx.postMedia.create({
+          data: {
+            postId: id,
+            url: item.url,
+            type: item.type,
+            width: item.width,
+            height: item.height,
+            duration: item.duration,
+            posterUrl: item.posterUrl,
+            variants: PostMediaService.toJson(item.variants),
+            placeholder: item.placeholder,
+            order,
+          },
+        });
       });
 
       loggerHelpers.logAuth('post_media_added', request.user.id, {
@@ -943,6 +1203,24 @@ export class PostController {
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: 'VIDEO_TOO_LONG',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (error instanceof NotFoundError) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Media not found or already used',
+          error: 'MEDIA_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       loggerHelpers.logError(error as Error, {
         action: 'add_post_media',
         userId: request.user?.id,
@@ -1025,17 +1303,22 @@ export class PostController {
         });
       }
 
-      // Delete media from cloud storage
-      try {
-        await CloudinaryService.deleteFile(media.url);
-      } catch (error) {
-        logger.error('Failed to delete media from cloud storage:', error);
+      // Remove media from post. Only the request that removed it lets go
+      // of the file, deleting it if nothing else uses it.
+      const { count } = await prisma.postMedia.deleteMany({
+        where: { id: mediaId, postId: id, post: { userId: request.user.id } },
+      });
+
+      if (count === 0) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Media not found',
+          error: 'MEDIA_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
       }
 
-      // Remove media from post
-      await prisma.postMedia.delete({
-        where: { id: mediaId },
-      });
+      await MediaAssetService.release([media.url]);
 
       loggerHelpers.logAuth('post_media_removed', request.user.id, {
         postId: id,
@@ -1064,6 +1347,94 @@ export class PostController {
     }
   }
 
+  // Reorder post media
+  static async reorderMedia(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: ReorderPostMediaRequest;
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const { mediaIds } = request.body;
+
+      // Check if post exists and belongs to user
+      const post = await prisma.post.findUnique({
+        where: { id },
+        select: { userId: true },
+      });
+
+      if (!post) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Post not found',
+          error: 'POST_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (post.userId !== request.user.id) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot reorder media of this post',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // The new order has to list every media item of the post once
+      if (!(await PostMediaService.isCompleteOrder(id, mediaIds))) {
+        return reply.status(400).send({
+          success: false,
+          message: 'mediaIds must list each media item of the post once',
+          error: 'INVALID_MEDIA_ORDER',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await PostMediaService.setOrder(id, mediaIds);
+
+      const media = await prisma.postMedia.findMany({
+        where: { postId: id },
+        orderBy: { order: 'asc' },
+      });
+
+      loggerHelpers.logAuth('post_media_reordered', request.user.id, {
+        postId: id,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Media reordered successfully',
+        data: { media },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'reorder_post_media',
+        userId: request.user?.id,
+        postId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to reorder media',
+        error: 'REORDER_MEDIA_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   // Like a post
   static async likePost(
     request: FastifyRequest<{ Params: { id: string } }>,
@@ -1087,6 +1458,7 @@ export class PostController {
         select: {
           id: true,
           userId: true,
+          user: { select: { id: true, isPrivate: true } },
           likesEnabled: true,
           likesCount: true,
         },
@@ -1101,6 +1473,16 @@ export class PostController {
         });
       }
 
+      // Check if user has access to the post
+      if (!(await VisibilityService.canView(request.user.id, post.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this post',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       if (!post.likesEnabled) {
         return reply.status(400).send({
           success: false,
@@ -1143,6 +1525,15 @@ export class PostController {
         data: { likesCount: { increment: 1 } },
       });
 
+      await NotificationService.create({
+        senderId: request.user.id,
+        receiverId: post.userId,
+        type: 'LIKE',
+        title: 'New like',
+        content: `${request.user.username} liked your post`,
+        data: { postId: id },
+      });
+
       loggerHelpers.logAuth('post_liked', request.user.id, {
         postId: id,
       });
@@ -1286,6 +1677,7 @@ export class PostController {
         where: { id },
         select: {
           id: true,
+          user: { select: { id: true, isPrivate: true } },
           likesEnabled: true,
           likesCount: true,
         },
@@ -1300,6 +1692,16 @@ export class PostController {
         });
       }
 
+      // Check if user has access to the post
+      if (!(await VisibilityService.canView(request.user?.id, post.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this post',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       if (!post.likesEnabled) {
         return reply.status(400).send({
           success: false,
@@ -1350,6 +1752,7 @@ export class PostController {
         where: { id },
         select: {
           id: true,
+          user: { select: { id: true, isPrivate: true } },
           likesEnabled: true,
         },
       });
@@ -1363,6 +1766,16 @@ export class PostController {
         });
       }
 
+      // Check if user has access to the post
+      if (!(await VisibilityService.canView(request.user?.id, post.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this post',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       if (!post.likesEnabled) {
         return reply.status(400).send({
           success: false,
@@ -1427,4 +1840,201 @@ export class PostController {
       });
     }
   }
+
+  // Save a post
+  static async savePost(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const userId = request.user.id;
+
+      const post = await prisma.post.findUnique({
+        where: { id },
+        select: {
+          id: true,
+          userId: true,
+          isArchived: true,
+          user: { select: { id: true, isPrivate: true } },
+        },
+      });
+
+      if (!post || (post.isArchived && post.userId !== userId)) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Post not found',
+          error: 'POST_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user has access to the post
+      if (!(await VisibilityService.canView(userId, post.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this post',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (await SavedPostService.isSaved(userId, id)) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Post already saved',
+          error: 'ALREADY_SAVED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Saving is private, so the author is not notified
+      await prisma.savedPost.create({
+        data: { userId, postId: id },
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Post saved successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'save_post',
+        userId: request.user?.id,
+        postId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to save post',
+        error: 'SAVE_POST_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Unsave a post, removing it from all of the user's collections
+  static async unsavePost(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+
+      const { count } = await prisma.savedPost.deleteMany({
+        where: { userId: request.user.id, postId: id },
+      });
+
+      if (count === 0) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Post not saved',
+          error: 'NOT_SAVED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      return reply.send({
+        success: true,
+        message: 'Post unsaved successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'unsave_post',
+        userId: request.user?.id,
+        postId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to unsave post',
+        error: 'UNSAVE_POST_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get all of the current user's saved posts, most recently saved first
+  static async getSavedPosts(
+    request: FastifyRequest<{
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { page = 1, limit = 10 } = request.query;
+      const skip = (page - 1) * limit;
+      const userId = request.user.id;
+      const where = visibleSavedPostWhere(userId);
+
+      const [saves, total] = await Promise.all([
+        prisma.savedPost.findMany({
+          where,
+          include: {
+            post: { include: savedPostInclude(userId) },
+          },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          skip,
+          take: limit,
+        }),
+        prisma.savedPost.count({ where }),
+      ]);
+
+      return reply.send({
+        success: true,
+        message: 'Saved posts retrieved successfully',
+        data: {
+          items: saves.map((saved) => SavedPostService.formatPost(saved)),
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrevious: page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_saved_posts',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get saved posts',
+        error: 'GET_SAVED_POSTS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
 }
@@ -1,24 +1,56 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../config/database';
-import { ApiResponse } from '../types';
-import { CloudinaryService } from '../config/cloudinary';
+import {
+  ApiResponse,
+  CreateStickerRequest,
+  StickerResponseRequest,
+} from '../types';
+import { socketHelpers } from '../config/socket';
 import logger from '../utils/logger';
-import { ReactionType } from '@prisma/client';
+import { DateUtils } from '../utils/helpers';
+import { NotificationService } from '../services/notification.service';
+import { VisibilityService } from '../services/visibility.service';
+import { MuteService } from '../services/mute.service';
+import { CloseFriendService } from '../services/close-friend.service';
+import { ConversationService } from '../services/conversation.service';
+import { StoryService, storyReplySelect } from '../services/story.service';
+import {
+  StickerService,
+  RESPONDABLE_STICKER_TYPES,
+  stickerResponderSelect,
+  stickersInclude,
+} from '../services/sticker.service';
+import { UploadService } from '../services/upload.service';
+import { MediaAssetService } from '../services/media-asset.service';
+import {
+  NotFoundError,
+  StorageQuotaError,
+  ValidationError,
+} from '../middleware/errorHandler';
+import { ReactionType, StoryAudience, UploadPurpose } from '@prisma/client';
 
 export class StoryController {
   // Create new story
   static async createStory(
     request: FastifyRequest<{
       Body: {
-        mediaUrl: string;
-        mediaType: 'IMAGE' | 'VIDEO' | 'AUDIO';
+        mediaUrl?: string;
+        mediaId?: string;
         text?: string;
+        audience?: StoryAudience;
+        stickers?: CreateStickerRequest[];
       };
     }>,
     reply: FastifyReply
   ): Promise<ApiResponse<any>> {
     try {
-      const { mediaUrl, mediaType, text } = request.body;
+      const {
+        mediaUrl,
+        mediaId,
+        text,
+        audience = StoryAudience.EVERYONE,
+        stickers,
+      } = request.body;
       const userId = request.user?.id;
 
       if (!userId) {
@@ -30,25 +62,79 @@ export class StoryController {
         });
       }
 
-      // Create story with 24-hour expiration
+      // Check stickers and resolve mentioned users
+      const stickerRows = await StickerService.prepare(userId, stickers);
+
+      // Create story with 24-hour expiration, from media the user
+      // uploaded, given by its media ID or URL
       const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000);
-      const story = await prisma.story.create({
-        data: {
-          userId,
-          mediaUrl,
-          mediaType,
-          text,
-          expiresAt,
-        },
+      const story = await prisma.$transaction(async (tx) => {
+        const upload = mediaId
+          ? (
+              await UploadService.claim(
+                tx,
+                [mediaId],
+                userId,
+                UploadPurpose.STORY
+              )
+            )[0]
+          : await UploadService.claimUrl(
+              tx,
+              mediaUrl!,
+              userId,
+              UploadPurpose.STORY
+            );
+        await MediaAssetService.retain([upload.url], tx);
+
+        return tx.story.create({
+          data: {
+            userId,
+            mediaUrl: upload.url!,
+            mediaType: upload.mediaType!,
+            text,
+            audience,
+            expiresAt,
+            stickers: {
+              create: stickerRows,
+            },
+          },
+          include: {
+            stickers: stickersInclude(userId),
+            user: {
+              select: { id: true, username: true, isPrivate: true },
+            },
+          },
+        });
       });
 
+      const { user, ...storyData } = story;
+      await StickerService.notifyMentions(story, user, story.stickers);
+
       return reply.status(201).send({
         success: true,
         message: 'Story created successfully',
-        data: story,
+        data: StickerService.formatStory(storyData, userId),
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: 'INVALID_STICKER',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (error instanceof NotFoundError) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Media not found or already used',
+          error: 'MEDIA_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       logger.error('Error creating story:', error);
       return reply.status(500).send({
         success: false,
@@ -83,6 +169,9 @@ export class StoryController {
             gt: new Date(),
           },
         },
+        include: {
+          stickers: stickersInclude(userId),
+        },
         orderBy: {
           createdAt: 'desc',
         },
@@ -90,7 +179,11 @@ export class StoryController {
 
       return reply.send({
         success: true,
-        data: { stories },
+        data: {
+          stories: stories.map((story) =>
+            StickerService.formatStory(story, userId)
+          ),
+        },
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -104,6 +197,89 @@ export class StoryController {
     }
   }
 
+  // Get current user's story archive, grouped by the day stories were
+  // posted. Only the owner can see their archive.
+  static async getStoryArchive(
+    request: FastifyRequest<{
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse<any>> {
+    try {
+      const userId = request.user?.id;
+      const page = Number(request.query.page) || 1;
+      const limit = Number(request.query.limit) || 30;
+      const skip = (page - 1) * limit;
+
+      if (!userId) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const where = {
+        userId,
+        archivedAt: { not: null },
+      };
+
+      const [stories, total] = await Promise.all([
+        prisma.story.findMany({
+          where,
+          include: {
+            _count: {
+              select: { views: true },
+            },
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          skip,
+          take: limit,
+        }),
+        prisma.story.count({ where }),
+      ]);
+
+      // Group stories by posting date, newest day first
+      const archive: { date: string; stories: any[] }[] = [];
+      for (const { _count, ...story } of stories) {
+        const date = DateUtils.format(story.createdAt, 'YYYY-MM-DD');
+        const last = archive[archive.length - 1];
+        const item = { ...story, viewsCount: _count.views };
+
+        if (last && last.date === date) {
+          last.stories.push(item);
+        } else {
+          archive.push({ date, stories: [item] });
+        }
+      }
+
+      return reply.send({
+        success: true,
+        data: {
+          archive,
+          pagination: {
+            total,
+            page,
+            limit,
+            pages: Math.ceil(total / limit),
+          },
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error getting story archive:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get story archive',
+        error: 'GET_STORY_ARCHIVE_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   // Get user's stories
   static async getUserStories(
     request: FastifyRequest<{
@@ -124,12 +300,24 @@ export class StoryController {
         });
       }
 
+      // Check if user has access to the stories
+      if (!(await VisibilityService.canView(currentUserId, userId))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this user stories',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Close Friends stories are left out unless the viewer is on the list
       const stories = await prisma.story.findMany({
         where: {
           userId,
           expiresAt: {
             gt: new Date(),
           },
+          ...CloseFriendService.storyAudienceWhere(currentUserId),
         },
         include: {
           views: {
@@ -137,16 +325,18 @@ export class StoryController {
               userId: currentUserId,
             },
           },
+          stickers: stickersInclude(currentUserId),
         },
         orderBy: {
           createdAt: 'desc',
         },
       });
 
-      // Add isViewed flag
+      // Add isViewed and isCloseFriends flags
       const storiesWithViewStatus = stories.map((story) => ({
-        ...story,
+        ...StickerService.formatStory(story, currentUserId),
         isViewed: story.views.length > 0,
+        isCloseFriends: story.audience === StoryAudience.CLOSE_FRIENDS,
       }));
 
       return reply.send({
@@ -182,19 +372,24 @@ export class StoryController {
         });
       }
 
-      // Get followed users
-      const followedUsers = await prisma.follow.findMany({
-        where: {
-          followerId: currentUserId,
-        },
-        select: {
-          followingId: true,
-        },
-      });
+      // Get followed users, leaving out those whose stories are muted
+      const [followedUsers, mutedUserIds] = await Promise.all([
+        prisma.follow.findMany({
+          where: {
+            followerId: currentUserId,
+          },
+          select: {
+            followingId: true,
+          },
+        }),
+        MuteService.getMutedUserIds(currentUserId, 'stories'),
+      ]);
 
-      const followedUserIds = followedUsers.map((f) => f.followingId);
+      const followedUserIds = followedUsers
+        .map((f) => f.followingId)
+        .filter((userId) => !mutedUserIds.includes(userId));
 
-      // Get stories from followed users
+      // Get stories from followed users whose audience includes the viewer
       const stories = await prisma.story.findMany({
         where: {
           userId: {
@@ -203,6 +398,7 @@ export class StoryController {
           expiresAt: {
             gt: new Date(),
           },
+          ...CloseFriendService.storyAudienceWhere(currentUserId),
         },
         include: {
           user: {
@@ -219,16 +415,18 @@ export class StoryController {
               userId: currentUserId,
             },
           },
+          stickers: stickersInclude(currentUserId),
         },
         orderBy: {
           createdAt: 'desc',
         },
       });
 
-      // Add isViewed flag
+      // Add isViewed and isCloseFriends flags
       const storiesWithViewStatus = stories.map((story) => ({
-        ...story,
+        ...StickerService.formatStory(story, currentUserId),
         isViewed: story.views.length > 0,
+        isCloseFriends: story.audience === StoryAudience.CLOSE_FRIENDS,
       }));
 
       return reply.send({
@@ -295,6 +493,9 @@ export class StoryController {
         where: { id },
       });
 
+      // Delete the media file if nothing else uses it
+      await MediaAssetService.release([story.mediaUrl]);
+
       return reply.send({
         success: true,
         message: 'Story deleted successfully',
@@ -338,22 +539,38 @@ export class StoryController {
         });
       }
 
-      // Upload media
-      const mediaResult = await CloudinaryService.uploadFile(
+      // Held as an upload until a story takes it or it expires
+      const upload = await UploadService.storeDirect(
         data,
-        {
-          folder: 'stories',
-        },
-        'story'
+        userId,
+        UploadPurpose.STORY
       );
 
       return reply.status(201).send({
         success: true,
         message: 'Media uploaded successfully',
-        data: mediaResult,
+        data: UploadService.formatMedia(upload),
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: 'FILE_VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (error instanceof StorageQuotaError) {
+        return reply.status(413).send({
+          success: false,
+          message: error.message,
+          error: 'STORAGE_QUOTA_EXCEEDED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       logger.error('Error uploading story media:', error);
       return reply.status(500).send({
         success: false,
@@ -387,6 +604,9 @@ export class StoryController {
       // Check if story exists
       const story = await prisma.story.findUnique({
         where: { id },
+        include: {
+          user: { select: { id: true, isPrivate: true } },
+        },
       });
 
       if (!story) {
@@ -398,6 +618,26 @@ export class StoryController {
         });
       }
 
+      // Close Friends stories don't exist for users outside the list
+      if (!(await CloseFriendService.canViewStory(userId, story))) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Story not found',
+          error: 'STORY_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user has access to the story
+      if (!(await VisibilityService.canView(userId, story.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this story',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Check if story has expired
       if (story.expiresAt < new Date()) {
         return reply.status(400).send({
@@ -408,6 +648,17 @@ export class StoryController {
         });
       }
 
+      // Only the first view of a story notifies its owner
+      const existingView = await prisma.storyView.findUnique({
+        where: {
+          storyId_userId: {
+            storyId: id,
+            userId,
+          },
+        },
+        select: { id: true },
+      });
+
       // Add view
       await prisma.storyView.upsert({
         where: {
@@ -425,6 +676,17 @@ export class StoryController {
         },
       });
 
+      if (!existingView) {
+        await NotificationService.create({
+          senderId: userId,
+          receiverId: story.userId,
+          type: 'STORY_VIEW',
+          title: 'New story view',
+          content: `${request.user!.username} viewed your story`,
+          data: { storyId: id },
+        });
+      }
+
       return reply.send({
         success: true,
         message: 'Story marked as viewed',
@@ -500,6 +762,8 @@ export class StoryController {
           id: true,
           userId: true,
           viewedAt: true,
+          screenshotCount: true,
+          lastScreenshotAt: true,
         },
         orderBy: {
           viewedAt: 'desc',
@@ -524,6 +788,8 @@ export class StoryController {
           return {
             ...user,
             viewedAt: view.viewedAt,
+            screenshotCount: view.screenshotCount,
+            lastScreenshotAt: view.lastScreenshotAt,
           };
         })
       );
@@ -552,6 +818,106 @@ export class StoryController {
     }
   }
 
+  // Get who took screenshots of a story and when
+  static async getStoryScreenshots(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse<any>> {
+    try {
+      const { id } = request.params;
+      const page = Number(request.query.page) || 1;
+      const limit = Number(request.query.limit) || 10;
+      const skip = (page - 1) * limit;
+      const userId = request.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const story = await prisma.story.findUnique({
+        where: { id },
+        select: { userId: true },
+      });
+
+      if (!story) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Story not found',
+          error: 'STORY_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (story.userId !== userId) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Not authorized to view story screenshots',
+          error: 'NOT_AUTHORIZED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const [total, events] = await Promise.all([
+        prisma.storyScreenshot.count({ where: { storyId: id } }),
+        prisma.storyScreenshot.findMany({
+          where: { storyId: id },
+          select: {
+            id: true,
+            createdAt: true,
+            user: {
+              select: {
+                id: true,
+                username: true,
+                fullName: true,
+                avatar: true,
+                isVerified: true,
+              },
+            },
+          },
+          orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+          skip,
+          take: limit,
+        }),
+      ]);
+
+      const screenshots = events.map((event) => ({
+        id: event.id,
+        user: event.user,
+        takenAt: event.createdAt,
+      }));
+
+      return reply.send({
+        success: true,
+        data: {
+          screenshots,
+          pagination: {
+            total,
+            page,
+            limit,
+            pages: Math.ceil(total / limit),
+          },
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error getting story screenshots:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get story screenshots',
+        error: 'GET_STORY_SCREENSHOTS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   // React to story
   static async reactToStory(
     request: FastifyRequest<{
@@ -577,6 +943,9 @@ export class StoryController {
       // Check if story exists
       const story = await prisma.story.findUnique({
         where: { id },
+        include: {
+          user: { select: { id: true, isPrivate: true } },
+        },
       });
 
       if (!story) {
@@ -588,6 +957,26 @@ export class StoryController {
         });
       }
 
+      // Close Friends stories don't exist for users outside the list
+      if (!(await CloseFriendService.canViewStory(userId, story))) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Story not found',
+          error: 'STORY_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user has access to the story
+      if (!(await VisibilityService.canView(userId, story.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this story',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Check if story has expired
       if (story.expiresAt < new Date()) {
         return reply.status(400).send({
@@ -632,4 +1021,395 @@ export class StoryController {
       });
     }
   }
+
+  // Reply to a story. The reply is delivered to the owner as a direct
+  // message that keeps a reference to the story.
+  static async replyToStory(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: { content: string };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse<any>> {
+    try {
+      const { id } = request.params;
+      const { content } = request.body;
+      const userId = request.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if story exists
+      const story = await prisma.story.findUnique({
+        where: { id },
+        include: {
+          user: { select: { id: true, isPrivate: true } },
+        },
+      });
+
+      if (!story) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Story not found',
+          error: 'STORY_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (story.userId === userId) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Cannot reply to your own story',
+          error: 'INVALID_OPERATION',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Close Friends stories don't exist for users outside the list
+      if (!(await CloseFriendService.canViewStory(userId, story))) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Story not found',
+          error: 'STORY_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user has access to the story
+      if (!(await VisibilityService.canView(userId, story.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this story',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if story has expired
+      if (story.expiresAt < new Date()) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Story has expired',
+          error: 'STORY_EXPIRED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { conversation } = await ConversationService.findOrCreateDirect(
+        userId,
+        story.userId
+      );
+
+      const message = await prisma.message.create({
+        data: {
+          conversationId: conversation.id,
+          senderId: userId,
+          content,
+          messageType: 'STORY_REPLY',
+          storyId: id,
+        },
+        include: {
+          sender: {
+            select: {
+              id: true,
+              username: true,
+              fullName: true,
+              avatar: true,
+              isVerified: true,
+            },
+          },
+          story: {
+            select: storyReplySelect,
+          },
+        },
+      });
+
+      await ConversationService.touch(
+        conversation.id,
+        message.id,
+        '↩️ Replied to a story'
+      );
+
+      const { story: repliedStory, ...messageData } = message;
+      const messageWithStory = {
+        ...messageData,
+        storyReply: StoryService.formatStoryReply({
+          storyId: message.storyId,
+          story: repliedStory,
+        }),
+      };
+
+      // Notify conversation members
+      try {
+        socketHelpers.sendToConversation(
+          conversation.id,
+          'new_message',
+          messageWithStory
+        );
+      } catch (error) {
+        logger.warn('Failed to emit new_message:', error);
+      }
+
+      return reply.status(201).send({
+        success: true,
+        message: 'Reply sent successfully',
+        data: messageWithStory,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error replying to story:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to reply to story',
+        error: 'REPLY_TO_STORY_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Answer a poll, question, quiz or emoji slider sticker
+  static async respondToSticker(
+    request: FastifyRequest<{
+      Params: { id: string; stickerId: string };
+      Body: StickerResponseRequest;
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse<any>> {
+    try {
+      const { id, stickerId } = request.params;
+      const userId = request.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if sticker exists on the story
+      const sticker = await prisma.storySticker.findFirst({
+        where: { id: stickerId, storyId: id },
+        include: {
+          story: {
+            include: {
+              user: { select: { id: true, isPrivate: true } },
+            },
+          },
+        },
+      });
+
+      if (!sticker) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Sticker not found',
+          error: 'STICKER_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { story } = sticker;
+
+      // Close Friends stories don't exist for users outside the list
+      if (!(await CloseFriendService.canViewStory(userId, story))) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Story not found',
+          error: 'STORY_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user has access to the story
+      if (!(await VisibilityService.canView(userId, story.user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this story',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (story.userId === userId) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Cannot respond to your own sticker',
+          error: 'INVALID_OPERATION',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if story has expired
+      if (story.expiresAt < new Date()) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Story has expired',
+          error: 'STORY_EXPIRED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (!RESPONDABLE_STICKER_TYPES.includes(sticker.type)) {
+        return reply.status(400).send({
+          success: false,
+          message: 'This sticker cannot be answered',
+          error: 'STICKER_NOT_RESPONDABLE',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Poll and quiz answers cannot be changed
+      if (StickerService.isFinal(sticker.type)) {
+        const existing = await prisma.stickerResponse.findUnique({
+          where: {
+            stickerId_userId: { stickerId, userId },
+          },
+          select: { id: true },
+        });
+
+        if (existing) {
+          return reply.status(409).send({
+            success: false,
+            message: 'You have already answered this sticker',
+            error: 'ALREADY_RESPONDED',
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+
+      const response = await StickerService.respond(
+        sticker,
+        story,
+        { id: userId },
+        request.body
+      );
+
+      return reply.send({
+        success: true,
+        message: 'Response recorded successfully',
+        data: response,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return reply.status(400).send({
+          success: false,
+          message: error.message,
+          error: 'INVALID_STICKER_RESPONSE',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      logger.error('Error responding to sticker:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to respond to sticker',
+        error: 'STICKER_RESPONSE_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get aggregated results and individual answers of a sticker. Only the
+  // story owner can see them.
+  static async getStickerResults(
+    request: FastifyRequest<{
+      Params: { id: string; stickerId: string };
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse<any>> {
+    try {
+      const { id, stickerId } = request.params;
+      const page = Number(request.query.page) || 1;
+      const limit = Number(request.query.limit) || 20;
+      const skip = (page - 1) * limit;
+      const userId = request.user?.id;
+
+      if (!userId) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if sticker exists on the story
+      const sticker = await prisma.storySticker.findFirst({
+        where: { id: stickerId, storyId: id },
+        include: {
+          story: { select: { userId: true } },
+        },
+      });
+
+      if (!sticker) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Sticker not found',
+          error: 'STICKER_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (sticker.story.userId !== userId) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Not authorized to view sticker results',
+          error: 'NOT_AUTHORIZED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const [results, responses] = await Promise.all([
+        StickerService.getResults(sticker),
+        prisma.stickerResponse.findMany({
+          where: { stickerId },
+          include: {
+            user: { select: stickerResponderSelect },
+          },
+          orderBy: {
+            createdAt: 'desc',
+          },
+          skip,
+          take: limit,
+        }),
+      ]);
+
+      return reply.send({
+        success: true,
+        data: {
+          stickerId,
+          type: sticker.type,
+          results,
+          responses: responses.map((response) => ({
+            ...StickerService.formatResponse(sticker, response),
+            user: response.user,
+          })),
+          pagination: {
+            total: results.total,
+            page,
+            limit,
+            pages: Math.ceil(results.total / limit),
+          },
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error getting sticker results:', error);
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get sticker results',
+        error: 'GET_STICKER_RESULTS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
 }
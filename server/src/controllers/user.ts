@@ -2,8 +2,22 @@ import { FastifyRequest, FastifyReply } from 'fastify';
 import { MultipartFile } from '@fastify/multipart';
 import { prisma } from '../config/database';
 import { PasswordUtils, ObjectUtils } from '../utils/helpers';
-import { CloudinaryService } from '../config/cloudinary';
-import logger, { loggerHelpers } from '../utils/logger';
+import { loggerHelpers } from '../utils/logger';
+import {
+  FollowService,
+  followRequestUserSelect,
+} from '../services/follow.service';
+import { VisibilityService } from '../services/visibility.service';
+import { BlockService } from '../services/block.service';
+import { MuteService } from '../services/mute.service';
+import { CloseFriendService } from '../services/close-friend.service';
+import { MediaAssetService } from '../services/media-asset.service';
+import {
+  StorageQuotaService,
+  StorageOverview,
+  StorageUsage,
+} from '../services/storage-quota.service';
+import { StorageQuotaError } from '../middleware/errorHandler';
 import type {
   UpdateUserRequest,
   ApiResponse,
@@ -191,19 +205,16 @@ export class UserController {
         });
       }
 
+      // Media the account's content refers to, released once it is gone
+      const mediaUrls = await MediaAssetService.referencedBy(request.user.id);
+
       // Delete user (cascade will handle related data)
       await prisma.user.delete({
         where: { id: request.user.id },
       });
 
-      // Clean up avatar from cloud storage if exists
-      if (user.avatar) {
-        try {
-          await CloudinaryService.deleteFile(user.avatar);
-        } catch (error) {
-          logger.error('Failed to delete avatar from cloud storage:', error);
-        }
-      }
+      // Clean up media files nothing else uses
+      await MediaAssetService.release(mediaUrls);
 
       loggerHelpers.logAuth('user_account_deleted', request.user.id, {
         username: user.username,
@@ -266,11 +277,36 @@ export class UserController {
         });
       }
 
+      // Users who blocked each other cannot see each other's profile
+      if (
+        currentUserId &&
+        (await BlockService.isBlocked(currentUserId, user.id))
+      ) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User not found',
+          error: 'USER_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Check follow relationship if user is authenticated
       let isFollowing = false;
       let isFollower = false;
+      let isRequested = false;
 
       if (currentUserId && currentUserId !== id) {
+        const followRequest = await prisma.followRequest.findUnique({
+          where: {
+            requesterId_targetId: {
+              requesterId: currentUserId,
+              targetId: id,
+            },
+          },
+          select: { id: true },
+        });
+        isRequested = !!followRequest;
+
         const followRelations = await prisma.follow.findMany({
           where: {
             OR: [
@@ -292,6 +328,7 @@ export class UserController {
         ...user,
         isFollowing,
         isFollower,
+        isRequested,
         isOwnProfile: currentUserId === id,
       };
 
@@ -354,11 +391,36 @@ export class UserController {
         });
       }
 
+      // Users who blocked each other cannot see each other's profile
+      if (
+        currentUserId &&
+        (await BlockService.isBlocked(currentUserId, user.id))
+      ) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User not found',
+          error: 'USER_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Check follow relationship if user is authenticated
       let isFollowing = false;
       let isFollower = false;
+      let isRequested = false;
 
       if (currentUserId && currentUserId !== user.id) {
+        const followRequest = await prisma.followRequest.findUnique({
+          where: {
+            requesterId_targetId: {
+              requesterId: currentUserId,
+              targetId: user.id,
+            },
+          },
+          select: { id: true },
+        });
+        isRequested = !!followRequest;
+
         const followRelations = await prisma.follow.findMany({
           where: {
             OR: [
@@ -380,6 +442,7 @@ export class UserController {
         ...user,
         isFollowing,
         isFollower,
+        isRequested,
         isOwnProfile: currentUserId === user.id,
       };
 
@@ -431,20 +494,26 @@ export class UserController {
         });
       }
 
-      // Upload to Cloudinary using stream
-      const uploadResult = await CloudinaryService.uploadFile(
-        data.file,
-        {
-          folder: 'avatars',
-          public_id: `avatar_${request.user.id}`,
-          overwrite: true,
-          transformation: [
-            { width: 400, height: 400, crop: 'fill', gravity: 'auto' },
-            { quality: 'auto' },
-          ],
-        },
-        'profile'
-      );
+      if (!data.mimetype.startsWith('image/')) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Avatar must be an image',
+          error: 'FILE_VALIDATION_ERROR',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const buffer = await data.toBuffer();
+      await StorageQuotaService.assertAvailable(request.user.id, buffer.length);
+
+      // Store as a square image under a new name, so the previous avatar
+      // can be removed without touching the new one
+      const uploadResult = await MediaAssetService.store(buffer, {
+        folder: 'avatars',
+        contentType: data.mimetype,
+        originalName: data.filename,
+        transform: { width: 400, height: 400, fit: 'cover' },
+      });
 
       // Get current user to check for existing avatar
       const currentUser = await prisma.user.findUnique({
@@ -453,20 +522,18 @@ export class UserController {
       });
 
       // Update user avatar
-      const updatedUser = await prisma.user.update({
-        where: { id: request.user.id },
-        data: { avatar: uploadResult.url },
-        select: { avatar: true },
+      const updatedUser = await prisma.$transaction(async (tx) => {
+        await MediaAssetService.retain([uploadResult.url], tx);
+
+        return tx.user.update({
+          where: { id: request.user!.id },
+          data: { avatar: uploadResult.url },
+          select: { avatar: true },
+        });
       });
 
-      // Delete old avatar if different
-      if (currentUser?.avatar && currentUser.avatar !== uploadResult.url) {
-        try {
-          await CloudinaryService.deleteFile(currentUser.avatar);
-        } catch (error) {
-          logger.error('Failed to delete old avatar:', error);
-        }
-      }
+      // Release the old avatar, deleting it if nothing else uses it
+      await MediaAssetService.release([currentUser?.avatar]);
 
       loggerHelpers.logAuth('avatar_uploaded', request.user.id);
 
@@ -477,6 +544,15 @@ export class UserController {
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof StorageQuotaError) {
+        return reply.status(413).send({
+          success: false,
+          message: error.message,
+          error: 'STORAGE_QUOTA_EXCEEDED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       loggerHelpers.logError(error as Error, {
         action: 'upload_avatar',
         userId: request.user?.id,
@@ -527,12 +603,8 @@ export class UserController {
         data: { avatar: null },
       });
 
-      // Delete from cloud storage
-      try {
-        await CloudinaryService.deleteFile(user.avatar);
-      } catch (error) {
-        logger.error('Failed to delete avatar from cloud storage:', error);
-      }
+      // Delete from storage if nothing else uses it
+      await MediaAssetService.release([user.avatar]);
 
       loggerHelpers.logAuth('avatar_removed', request.user.id);
 
@@ -556,6 +628,71 @@ export class UserController {
     }
   }
 
+  // Get how much storage the current user's media takes
+  static async getStorageUsage(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<ApiResponse<StorageUsage>> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const usage = await StorageQuotaService.usage(request.user.id);
+
+      return reply.status(200).send({
+        success: true,
+        data: usage,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_storage_usage',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get storage usage',
+        error: 'GET_STORAGE_USAGE_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get storage totals across all users, for admins
+  static async getStorageOverview(
+    request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<ApiResponse<StorageOverview>> {
+    try {
+      const overview = await StorageQuotaService.overview();
+
+      return reply.status(200).send({
+        success: true,
+        data: overview,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_storage_overview',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get storage overview',
+        error: 'GET_STORAGE_OVERVIEW_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   // Search users by name/username
   static async search(
     request: FastifyRequest<{
@@ -571,14 +708,17 @@ export class UserController {
       const { query, page = 1, limit = 10 } = request.query;
       const skip = (page - 1) * limit;
 
-      // Search users by username or fullName
+      // Search users by username or fullName, hiding blocked users
+      const where = {
+        OR: [
+          { username: { contains: query, mode: 'insensitive' as const } },
+          { fullName: { contains: query, mode: 'insensitive' as const } },
+        ],
+        ...BlockService.notBlockedWhere(request.user?.id),
+      };
+
       const users = await prisma.user.findMany({
-        where: {
-          OR: [
-            { username: { contains: query, mode: 'insensitive' } },
-            { fullName: { contains: query, mode: 'insensitive' } },
-          ],
-        },
+        where,
         select: {
           id: true,
           username: true,
@@ -597,14 +737,7 @@ export class UserController {
         },
       });
 
-      const total = await prisma.user.count({
-        where: {
-          OR: [
-            { username: { contains: query, mode: 'insensitive' } },
-            { fullName: { contains: query, mode: 'insensitive' } },
-          ],
-        },
-      });
+      const total = await prisma.user.count({ where });
 
       return reply.send({
         success: true,
@@ -634,6 +767,107 @@ export class UserController {
     }
   }
 
+  // Autocomplete usernames for @mentions, followed users first
+  static async autocomplete(
+    request: FastifyRequest<{
+      Querystring: {
+        query: string;
+        limit?: number;
+      };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { limit = 8 } = request.query;
+      const userId = request.user.id;
+      const prefix = request.query.query.replace(/^@/, '').trim();
+
+      if (!prefix) {
+        return reply.send({
+          success: true,
+          data: { users: [] },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const matches = {
+        ...BlockService.notBlockedWhere(userId),
+        OR: [
+          { username: { startsWith: prefix, mode: 'insensitive' as const } },
+          { fullName: { startsWith: prefix, mode: 'insensitive' as const } },
+        ],
+      };
+
+      const select = {
+        id: true,
+        username: true,
+        fullName: true,
+        avatar: true,
+        isVerified: true,
+      };
+
+      // People the viewer follows rank first
+      const followed = await prisma.user.findMany({
+        where: {
+          AND: [matches, { followers: { some: { followerId: userId } } }],
+        },
+        select,
+        take: limit,
+        orderBy: [{ followersCount: 'desc' }, { username: 'asc' }],
+      });
+
+      // Fill the remaining slots with everyone else
+      const others =
+        followed.length < limit
+          ? await prisma.user.findMany({
+              where: {
+                AND: [
+                  matches,
+                  { id: { not: userId } },
+                  { followers: { none: { followerId: userId } } },
+                ],
+              },
+              select,
+              take: limit - followed.length,
+              orderBy: [{ followersCount: 'desc' }, { username: 'asc' }],
+            })
+          : [];
+
+      const users = [
+        ...followed.map((user) => ({ ...user, isFollowing: true })),
+        ...others.map((user) => ({ ...user, isFollowing: false })),
+      ];
+
+      return reply.send({
+        success: true,
+        data: { users },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'autocomplete_users',
+        userId: request.user?.id,
+        query: request.query,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to autocomplete users',
+        error: 'AUTOCOMPLETE_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   // Get follow suggestions
   static async getSuggestions(
     request: FastifyRequest<{
@@ -661,6 +895,8 @@ export class UserController {
                 },
               },
             },
+            // Exclude blocked users
+            BlockService.notBlockedWhere(userId),
           ],
         },
         select: {
@@ -811,6 +1047,16 @@ export class UserController {
         });
       }
 
+      // Blocked users cannot follow or request to follow
+      if (await BlockService.isBlocked(followerId, id)) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot follow this user',
+          error: 'USER_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Check if already following
       const existingFollow = await prisma.follow.findUnique({
         where: {
@@ -830,24 +1076,46 @@ export class UserController {
         });
       }
 
-      // Create follow relationship
-      await prisma.follow.create({
-        data: {
-          followerId,
-          followingId: id,
-        },
-      });
+      // Private accounts must approve followers first
+      if (userToFollow.isPrivate) {
+        const existingRequest = await prisma.followRequest.findUnique({
+          where: {
+            requesterId_targetId: {
+              requesterId: followerId,
+              targetId: id,
+            },
+          },
+        });
 
-      // Update follower counts
-      await prisma.user.update({
-        where: { id: followerId },
-        data: { followingCount: { increment: 1 } },
-      });
+        if (existingRequest) {
+          return reply.status(409).send({
+            success: false,
+            message: 'Follow request already sent',
+            error: 'FOLLOW_REQUEST_PENDING',
+            timestamp: new Date().toISOString(),
+          });
+        }
 
-      await prisma.user.update({
-        where: { id },
-        data: { followersCount: { increment: 1 } },
-      });
+        const followRequest = await FollowService.createRequest(
+          request.user,
+          id
+        );
+
+        loggerHelpers.logAuth('follow_requested', followerId, {
+          targetUserId: id,
+          requestId: followRequest.id,
+        });
+
+        return reply.status(202).send({
+          success: true,
+          message: 'Follow request sent',
+          data: { status: 'requested', requestId: followRequest.id },
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Create follow relationship and update follower counts
+      await FollowService.follow(request.user, id);
 
       loggerHelpers.logAuth('user_followed', followerId, {
         targetUserId: id,
@@ -856,6 +1124,7 @@ export class UserController {
       return reply.status(200).send({
         success: true,
         message: 'Successfully followed user',
+        data: { status: 'following' },
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
@@ -921,26 +1190,8 @@ export class UserController {
         });
       }
 
-      // Delete follow relationship
-      await prisma.follow.delete({
-        where: {
-          followerId_followingId: {
-            followerId,
-            followingId: id,
-          },
-        },
-      });
-
-      // Update follower counts
-      await prisma.user.update({
-        where: { id: followerId },
-        data: { followingCount: { decrement: 1 } },
-      });
-
-      await prisma.user.update({
-        where: { id },
-        data: { followersCount: { decrement: 1 } },
-      });
+      // Delete follow relationship and update follower counts
+      await FollowService.unfollow(followerId, id);
 
       loggerHelpers.logAuth('user_unfollowed', followerId, {
         targetUserId: id,
@@ -967,56 +1218,1063 @@ export class UserController {
     }
   }
 
-  // Get user's followers
-  static async getFollowers(
-    request: FastifyRequest<{
-      Params: { id: string };
-      Querystring: { page?: number; limit?: number };
-    }>,
+  // Cancel a pending follow request
+  static async cancelFollowRequest(
+    request: FastifyRequest<{ Params: { id: string } }>,
     reply: FastifyReply
   ): Promise<ApiResponse> {
     try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       const { id } = request.params;
-      const { page = 1, limit = 10 } = request.query;
-      const skip = (page - 1) * limit;
-      const currentUserId = request.user?.id;
 
-      // Get user's followers
-      const followers = await prisma.user.findMany({
+      // Check if a pending request to this user exists
+      const followRequest = await prisma.followRequest.findUnique({
         where: {
-          following: {
-            some: {
-              followingId: id,
-            },
+          requesterId_targetId: {
+            requesterId: request.user.id,
+            targetId: id,
           },
         },
-        select: {
-          id: true,
-          username: true,
-          fullName: true,
-          avatar: true,
-          bio: true,
-          followersCount: true,
-          followingCount: true,
-          postsCount: true,
-          isVerified: true,
-        },
-        skip,
-        take: limit,
-        orderBy: {
-          followersCount: 'desc',
-        },
+        select: { id: true },
       });
 
-      // Get total count
-      const total = await prisma.user.count({
-        where: {
-          following: {
-            some: {
-              followingId: id,
-            },
-          },
-        },
+      if (!followRequest) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Follow request not found',
+          error: 'FOLLOW_REQUEST_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await FollowService.cancelRequest(followRequest.id);
+
+      loggerHelpers.logAuth('follow_request_cancelled', request.user.id, {
+        targetUserId: id,
+        requestId: followRequest.id,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Follow request cancelled',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'cancel_follow_request',
+        userId: request.user?.id,
+        targetUserId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to cancel follow request',
+        error: 'CANCEL_FOLLOW_REQUEST_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get incoming follow requests
+  static async getFollowRequests(
+    request: FastifyRequest<{
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { page = 1, limit = 20 } = request.query;
+      const skip = (page - 1) * limit;
+      const where = { targetId: request.user.id };
+
+      const requests = await prisma.followRequest.findMany({
+        where,
+        include: {
+          requester: {
+            select: followRequestUserSelect,
+          },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        skip,
+        take: limit,
+      });
+
+      // Get total count
+      const total = await prisma.followRequest.count({ where });
+
+      return reply.send({
+        success: true,
+        message: 'Follow requests retrieved successfully',
+        data: {
+          items: requests,
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrevious: page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_follow_requests',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get follow requests',
+        error: 'GET_FOLLOW_REQUESTS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get outgoing follow requests
+  static async getSentFollowRequests(
+    request: FastifyRequest<{
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { page = 1, limit = 20 } = request.query;
+      const skip = (page - 1) * limit;
+      const where = { requesterId: request.user.id };
+
+      const requests = await prisma.followRequest.findMany({
+        where,
+        include: {
+          target: {
+            select: followRequestUserSelect,
+          },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        skip,
+        take: limit,
+      });
+
+      // Get total count
+      const total = await prisma.followRequest.count({ where });
+
+      return reply.send({
+        success: true,
+        message: 'Sent follow requests retrieved successfully',
+        data: {
+          items: requests,
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrevious: page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_sent_follow_requests',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get follow requests',
+        error: 'GET_SENT_FOLLOW_REQUESTS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Accept a follow request
+  static async acceptFollowRequest(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+
+      // Check if request exists and was sent to the current user
+      const followRequest = await prisma.followRequest.findUnique({
+        where: { id },
+        select: { requesterId: true, targetId: true },
+      });
+
+      if (!followRequest) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Follow request not found',
+          error: 'FOLLOW_REQUEST_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (followRequest.targetId !== request.user.id) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot accept this follow request',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await FollowService.acceptRequest(id, request.user);
+
+      loggerHelpers.logAuth('follow_request_accepted', request.user.id, {
+        requestId: id,
+        requesterId: followRequest.requesterId,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Follow request accepted',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'accept_follow_request',
+        userId: request.user?.id,
+        requestId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to accept follow request',
+        error: 'ACCEPT_FOLLOW_REQUEST_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Decline a follow request
+  static async declineFollowRequest(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+
+      // Check if request exists and was sent to the current user
+      const followRequest = await prisma.followRequest.findUnique({
+        where: { id },
+        select: { requesterId: true, targetId: true },
+      });
+
+      if (!followRequest) {
+        return reply.status(404).send({
+          success: false,
+          message: 'Follow request not found',
+          error: 'FOLLOW_REQUEST_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      if (followRequest.targetId !== request.user.id) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot decline this follow request',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await FollowService.declineRequest(id);
+
+      loggerHelpers.logAuth('follow_request_declined', request.user.id, {
+        requestId: id,
+        requesterId: followRequest.requesterId,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'Follow request declined',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'decline_follow_request',
+        userId: request.user?.id,
+        requestId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to decline follow request',
+        error: 'DECLINE_FOLLOW_REQUEST_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Block a user
+  static async blockUser(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const blockerId = request.user.id;
+
+      // Check if trying to block self
+      if (id === blockerId) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Cannot block yourself',
+          error: 'INVALID_OPERATION',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user exists
+      const userToBlock = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!userToBlock) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User not found',
+          error: 'USER_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Block and drop follows in both directions
+      await BlockService.block(blockerId, id);
+
+      loggerHelpers.logAuth('user_blocked', blockerId, {
+        targetUserId: id,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'User blocked successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'block_user',
+        userId: request.user?.id,
+        targetUserId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to block user',
+        error: 'BLOCK_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Unblock a user
+  static async unblockUser(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const blockerId = request.user.id;
+
+      // Check if block exists
+      const block = await prisma.block.findUnique({
+        where: {
+          blockerId_blockedId: {
+            blockerId,
+            blockedId: id,
+          },
+        },
+      });
+
+      if (!block) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User is not blocked',
+          error: 'NOT_BLOCKED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await BlockService.unblock(blockerId, id);
+
+      loggerHelpers.logAuth('user_unblocked', blockerId, {
+        targetUserId: id,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'User unblocked successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'unblock_user',
+        userId: request.user?.id,
+        targetUserId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to unblock user',
+        error: 'UNBLOCK_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get users blocked by the current user
+  static async getBlockedUsers(
+    request: FastifyRequest<{
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { page = 1, limit = 20 } = request.query;
+      const skip = (page - 1) * limit;
+      const where = { blockerId: request.user.id };
+
+      const blocks = await prisma.block.findMany({
+        where,
+        include: {
+          blocked: {
+            select: {
+              id: true,
+              username: true,
+              fullName: true,
+              avatar: true,
+              isVerified: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        skip,
+        take: limit,
+      });
+
+      // Get total count
+      const total = await prisma.block.count({ where });
+
+      return reply.send({
+        success: true,
+        message: 'Blocked users retrieved successfully',
+        data: {
+          items: blocks.map((block) => ({
+            ...block.blocked,
+            blockedAt: block.createdAt,
+          })),
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrevious: page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_blocked_users',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get blocked users',
+        error: 'GET_BLOCKED_USERS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Mute a user's posts and/or stories without unfollowing. The muted
+  // user is never told.
+  static async muteUser(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Body: { posts?: boolean; stories?: boolean };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const { posts, stories } = request.body || {};
+      const muterId = request.user.id;
+
+      // Check if trying to mute self
+      if (id === muterId) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Cannot mute yourself',
+          error: 'INVALID_OPERATION',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // A mute has to hide something; use unmute to lift it
+      if (posts === false && stories === false) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Mute at least posts or stories',
+          error: 'INVALID_MUTE_OPTIONS',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user exists
+      const userToMute = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!userToMute) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User not found',
+          error: 'USER_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const mute = await MuteService.mute(muterId, id, { posts, stories });
+
+      loggerHelpers.logAuth('user_muted', muterId, {
+        targetUserId: id,
+        mutePosts: mute.mutePosts,
+        muteStories: mute.muteStories,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'User muted successfully',
+        data: {
+          mutePosts: mute.mutePosts,
+          muteStories: mute.muteStories,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'mute_user',
+        userId: request.user?.id,
+        targetUserId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to mute user',
+        error: 'MUTE_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Unmute a user
+  static async unmuteUser(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const muterId = request.user.id;
+
+      // Check if mute exists
+      const mute = await prisma.mute.findUnique({
+        where: {
+          muterId_mutedId: {
+            muterId,
+            mutedId: id,
+          },
+        },
+      });
+
+      if (!mute) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User is not muted',
+          error: 'NOT_MUTED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await MuteService.unmute(muterId, id);
+
+      loggerHelpers.logAuth('user_unmuted', muterId, {
+        targetUserId: id,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'User unmuted successfully',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'unmute_user',
+        userId: request.user?.id,
+        targetUserId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to unmute user',
+        error: 'UNMUTE_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get users muted by the current user
+  static async getMutedUsers(
+    request: FastifyRequest<{
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { page = 1, limit = 20 } = request.query;
+      const skip = (page - 1) * limit;
+      const where = { muterId: request.user.id };
+
+      const mutes = await prisma.mute.findMany({
+        where,
+        include: {
+          muted: {
+            select: {
+              id: true,
+              username: true,
+              fullName: true,
+              avatar: true,
+              isVerified: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        skip,
+        take: limit,
+      });
+
+      // Get total count
+      const total = await prisma.mute.count({ where });
+
+      return reply.send({
+        success: true,
+        message: 'Muted users retrieved successfully',
+        data: {
+          items: mutes.map((mute) => ({
+            ...mute.muted,
+            mutePosts: mute.mutePosts,
+            muteStories: mute.muteStories,
+            mutedAt: mute.createdAt,
+          })),
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrevious: page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_muted_users',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get muted users',
+        error: 'GET_MUTED_USERS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Add a user to the current user's Close Friends list
+  static async addCloseFriend(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const userId = request.user.id;
+
+      // Check if trying to add self
+      if (id === userId) {
+        return reply.status(400).send({
+          success: false,
+          message: 'Cannot add yourself to Close Friends',
+          error: 'INVALID_OPERATION',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user exists
+      const friend = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+
+      if (!friend || (await BlockService.isBlocked(userId, id))) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User not found',
+          error: 'USER_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await CloseFriendService.add(userId, id);
+
+      loggerHelpers.logAuth('close_friend_added', userId, {
+        targetUserId: id,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'User added to Close Friends',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'add_close_friend',
+        userId: request.user?.id,
+        targetUserId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to add user to Close Friends',
+        error: 'ADD_CLOSE_FRIEND_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Remove a user from the current user's Close Friends list
+  static async removeCloseFriend(
+    request: FastifyRequest<{ Params: { id: string } }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { id } = request.params;
+      const userId = request.user.id;
+
+      // Check if user is on the list
+      if (!(await CloseFriendService.isCloseFriend(userId, id))) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User is not in Close Friends',
+          error: 'NOT_CLOSE_FRIEND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      await CloseFriendService.remove(userId, id);
+
+      loggerHelpers.logAuth('close_friend_removed', userId, {
+        targetUserId: id,
+      });
+
+      return reply.send({
+        success: true,
+        message: 'User removed from Close Friends',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'remove_close_friend',
+        userId: request.user?.id,
+        targetUserId: request.params?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to remove user from Close Friends',
+        error: 'REMOVE_CLOSE_FRIEND_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get the current user's Close Friends list
+  static async getCloseFriends(
+    request: FastifyRequest<{
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      if (!request.user) {
+        return reply.status(401).send({
+          success: false,
+          message: 'Authentication required',
+          error: 'NOT_AUTHENTICATED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      const { page = 1, limit = 20 } = request.query;
+      const skip = (page - 1) * limit;
+      const where = { userId: request.user.id };
+
+      const closeFriends = await prisma.closeFriend.findMany({
+        where,
+        include: {
+          friend: {
+            select: {
+              id: true,
+              username: true,
+              fullName: true,
+              avatar: true,
+              isVerified: true,
+            },
+          },
+        },
+        orderBy: {
+          createdAt: 'desc',
+        },
+        skip,
+        take: limit,
+      });
+
+      // Get total count
+      const total = await prisma.closeFriend.count({ where });
+
+      return reply.send({
+        success: true,
+        message: 'Close Friends retrieved successfully',
+        data: {
+          items: closeFriends.map((closeFriend) => ({
+            ...closeFriend.friend,
+            addedAt: closeFriend.createdAt,
+          })),
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrevious: page > 1,
+        },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'get_close_friends',
+        userId: request.user?.id,
+      });
+
+      return reply.status(500).send({
+        success: false,
+        message: 'Failed to get Close Friends',
+        error: 'GET_CLOSE_FRIENDS_ERROR',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Get user's followers
+  static async getFollowers(
+    request: FastifyRequest<{
+      Params: { id: string };
+      Querystring: { page?: number; limit?: number };
+    }>,
+    reply: FastifyReply
+  ): Promise<ApiResponse> {
+    try {
+      const { id } = request.params;
+      const { page = 1, limit = 10 } = request.query;
+      const skip = (page - 1) * limit;
+      const currentUserId = request.user?.id;
+
+      // Check if user exists
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, isPrivate: true },
+      });
+
+      if (!user) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User not found',
+          error: 'USER_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user has access to the followers list
+      if (!(await VisibilityService.canView(currentUserId, user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this user followers',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Get user's followers
+      const followers = await prisma.user.findMany({
+        where: {
+          following: {
+            some: {
+              followingId: id,
+            },
+          },
+        },
+        select: {
+          id: true,
+          username: true,
+          fullName: true,
+          avatar: true,
+          bio: true,
+          followersCount: true,
+          followingCount: true,
+          postsCount: true,
+          isVerified: true,
+        },
+        skip,
+        take: limit,
+        orderBy: {
+          followersCount: 'desc',
+        },
+      });
+
+      // Get total count
+      const total = await prisma.user.count({
+        where: {
+          following: {
+            some: {
+              followingId: id,
+            },
+          },
+        },
       });
 
       // Add isFollowing flag if user is authenticated
@@ -1081,6 +2339,31 @@ export class UserController {
       const skip = (page - 1) * limit;
       const currentUserId = request.user?.id;
 
+      // Check if user exists
+      const user = await prisma.user.findUnique({
+        where: { id },
+        select: { id: true, isPrivate: true },
+      });
+
+      if (!user) {
+        return reply.status(404).send({
+          success: false,
+          message: 'User not found',
+          error: 'USER_NOT_FOUND',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      // Check if user has access to the following list
+      if (!(await VisibilityService.canView(currentUserId, user))) {
+        return reply.status(403).send({
+          success: false,
+          message: 'Cannot access this user following',
+          error: 'ACCESS_DENIED',
+          timestamp: new Date().toISOString(),
+        });
+      }
+
       // Get user's following
       const following = await prisma.user.findMany({
         where: {
@@ -0,0 +1,26 @@
+import {
+  startTrendingHashtagsJob,
+  stopTrendingHashtagsJob,
+} from './trending-hashtags';
+import { startStoryExpiryJob, stopStoryExpiryJob } from './story-expiry';
+import { startMediaGcJob, stopMediaGcJob } from './media-gc';
+import {
+  startScheduledPostsJob,
+  stopScheduledPostsJob,
+} from './scheduled-posts';
+
+// Start periodic background jobs
+export const startBackgroundJobs = () => {
+  startTrendingHashtagsJob();
+  startStoryExpiryJob();
+  startMediaGcJob();
+  startScheduledPostsJob();
+};
+
+// Stop periodic background jobs
+export const stopBackgroundJobs = () => {
+  stopTrendingHashtagsJob();
+  stopStoryExpiryJob();
+  stopMediaGcJob();
+  stopScheduledPostsJob();
+};
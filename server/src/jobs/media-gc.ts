@@ -0,0 +1,56 @@
+import { config } from '../config/database';
+import { MediaGcService } from '../services/media-gc.service';
+import logger, { loggerHelpers } from '../utils/logger';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Remove orphaned media, skipping if the previous run is busy
+const runMediaGc = async () => {
+  if (running) return;
+  running = true;
+
+  try {
+    const startedAt = Date.now();
+    const report = await MediaGcService.run({
+      dryRun: config.jobs.mediaGcDryRun,
+      gracePeriodMs: config.jobs.mediaGcGracePeriodMs,
+    });
+
+    loggerHelpers.logPerformance('media_gc', Date.now() - startedAt, {
+      dryRun: report.dryRun,
+      scanned: report.scanned,
+      orphans: report.orphans.length,
+      orphanBytes: report.orphanBytes,
+      deleted: report.deleted,
+      failed: report.failed,
+      expiredUploads: report.expiredUploads,
+      unreachable: report.unreachable,
+    });
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: 'collect_orphaned_media',
+    });
+  } finally {
+    running = false;
+  }
+};
+
+export const startMediaGcJob = () => {
+  if (timer) return;
+
+  const interval = config.jobs.mediaGcIntervalMs;
+  timer = setInterval(runMediaGc, interval);
+  void runMediaGc();
+
+  logger.info(
+    `🧹 Media GC job started (every ${interval}ms${config.jobs.mediaGcDryRun ? ', dry run' : ''})`
+  );
+};
+
+export const stopMediaGcJob = () => {
+  if (!timer) return;
+
+  clearInterval(timer);
+  timer = null;
+};
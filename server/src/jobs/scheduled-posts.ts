@@ -0,0 +1,46 @@
+import { config } from '../config/database';
+import { DraftService } from '../services/draft.service';
+import logger, { loggerHelpers } from '../utils/logger';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Publish scheduled posts that are due, skipping if the previous run is busy
+const runScheduledPosts = async () => {
+  if (running) return;
+  running = true;
+
+  try {
+    const startedAt = Date.now();
+    const published = await DraftService.publishDue();
+
+    if (published > 0) {
+      loggerHelpers.logPerformance('scheduled_posts', Date.now() - startedAt, {
+        published,
+      });
+    }
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: 'publish_scheduled_posts',
+    });
+  } finally {
+    running = false;
+  }
+};
+
+export const startScheduledPostsJob = () => {
+  if (timer) return;
+
+  const interval = config.jobs.scheduledPostsIntervalMs;
+  timer = setInterval(runScheduledPosts, interval);
+  void runScheduledPosts();
+
+  logger.info(`🗓️ Scheduled posts job started (every ${interval}ms)`);
+};
+
+export const stopScheduledPostsJob = () => {
+  if (!timer) return;
+
+  clearInterval(timer);
+  timer = null;
+};
@@ -0,0 +1,46 @@
+import { config } from '../config/database';
+import { StoryService } from '../services/story.service';
+import logger, { loggerHelpers } from '../utils/logger';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Archive expired stories, skipping if the previous run is busy
+const runStoryExpiry = async () => {
+  if (running) return;
+  running = true;
+
+  try {
+    const startedAt = Date.now();
+    const archived = await StoryService.expireStories();
+
+    if (archived > 0) {
+      loggerHelpers.logPerformance('story_expiry', Date.now() - startedAt, {
+        archived,
+      });
+    }
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: 'expire_stories',
+    });
+  } finally {
+    running = false;
+  }
+};
+
+export const startStoryExpiryJob = () => {
+  if (timer) return;
+
+  const interval = config.jobs.storyExpiryIntervalMs;
+  timer = setInterval(runStoryExpiry, interval);
+  void runStoryExpiry();
+
+  logger.info(`⏳ Story expiry job started (every ${interval}ms)`);
+};
+
+export const stopStoryExpiryJob = () => {
+  if (!timer) return;
+
+  clearInterval(timer);
+  timer = null;
+};
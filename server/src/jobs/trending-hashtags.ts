@@ -0,0 +1,39 @@
+import { config } from '../config/database';
+import { HashtagService } from '../services/hashtag.service';
+import logger, { loggerHelpers } from '../utils/logger';
+
+let timer: NodeJS.Timeout | null = null;
+let running = false;
+
+// Recompute trending hashtag scores, skipping if the previous run is busy
+const runTrendingHashtags = async () => {
+  if (running) return;
+  running = true;
+
+  try {
+    await HashtagService.refreshTrendingScores();
+  } catch (error) {
+    loggerHelpers.logError(error as Error, {
+      action: 'refresh_trending_hashtags',
+    });
+  } finally {
+    running = false;
+  }
+};
+
+export const startTrendingHashtagsJob = () => {
+  if (timer) return;
+
+  const interval = config.jobs.trendingHashtagsIntervalMs;
+  timer = setInterval(runTrendingHashtags, interval);
+  void runTrendingHashtags();
+
+  logger.info(`📈 Trending hashtags job started (every ${interval}ms)`);
+};
+
+export const stopTrendingHashtagsJob = () => {
+  if (!timer) return;
+
+  clearInterval(timer);
+  timer = null;
+};
@@ -1,4 +1,5 @@
 import { FastifyRequest, FastifyReply, HookHandlerDoneFunction } from 'fastify';
+import { UserRole } from '@prisma/client';
 import { TokenUtils } from '../utils/helpers';
 import { prisma } from '../config/database';
 import logger from '../utils/logger';
@@ -248,10 +249,9 @@ export const requireAdmin = async (
     });
   }
 
-  // Check if user has admin role (you'll need to add role field to user model)
   const user = await prisma.user.findUnique({
     where: { id: request.user.id },
-    select: { id: true }, // Add role field when available
+    select: { role: true },
   });
 
   if (!user) {
@@ -263,14 +263,14 @@ export const requireAdmin = async (
     });
   }
 
-  // For now, you can check against specific user IDs or implement role system
-  // if (!user.role || user.role !== 'admin') {
-  //   return reply.status(403).send({
-  //     success: false,
-  //     message: 'Admin access required',
-  //     error: 'INSUFFICIENT_PERMISSIONS'
-  //   });
-  // }
+  if (user.role !== UserRole.ADMIN) {
+    return reply.status(403).send({
+      success: false,
+      message: 'Admin access required',
+      error: 'INSUFFICIENT_PERMISSIONS',
+      timestamp: new Date().toISOString(),
+    });
+  }
 };
 
 // Check if user owns resource
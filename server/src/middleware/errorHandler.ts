@@ -83,6 +83,23 @@ export class FileUploadError extends AppError {
   }
 }
 
+// Storage quota error class
+export class StorageQuotaError extends AppError {
+  public used: number;
+  public quota: number;
+
+  constructor(used: number, quota: number) {
+    super(
+      `Storage quota of ${Math.round(quota / 1024 / 1024)}MB exceeded`,
+      413,
+      'STORAGE_QUOTA_EXCEEDED'
+    );
+    this.name = 'StorageQuotaError';
+    this.used = used;
+    this.quota = quota;
+  }
+}
+
 // Handle Prisma errors
 const handlePrismaError = (error: any): AppError => {
   if (error instanceof Prisma.PrismaClientKnownRequestError) {
@@ -0,0 +1,316 @@
+import { FastifyInstance } from 'fastify';
+import { CollectionController } from '../controllers/collection';
+import { authenticate } from '../middleware/auth';
+import { postSchemas } from '../middleware/validation';
+import { MAX_COLLECTION_POSTS } from '../services/saved-post.service';
+
+const collectionSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    userId: { type: 'string' },
+    name: { type: 'string' },
+    coverUrl: { type: 'string', nullable: true },
+    cover: { type: 'string', nullable: true },
+    position: { type: 'integer' },
+    postsCount: { type: 'integer' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
+const collectionResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+    data: collectionSchema,
+    timestamp: { type: 'string' },
+  },
+};
+
+const collectionsResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+    data: {
+      type: 'object',
+      properties: {
+        collections: {
+          type: 'array',
+          items: collectionSchema,
+        },
+      },
+    },
+    timestamp: { type: 'string' },
+  },
+};
+
+const messageResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+    timestamp: { type: 'string' },
+  },
+};
+
+const collectionIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Collection ID' },
+  },
+};
+
+const postIdsSchema = {
+  type: 'array',
+  items: { type: 'string' },
+  maxItems: MAX_COLLECTION_POSTS,
+  description: 'Post IDs in display order; unsaved posts are saved',
+};
+
+export async function collectionRoutes(fastify: FastifyInstance) {
+  // Create collection
+  fastify.post(
+    '/',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Create collection',
+        description: 'Create a named collection of saved posts',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 50 },
+            coverUrl: {
+              type: 'string',
+              description: 'Cover image; defaults to the first post',
+            },
+            postIds: postIdsSchema,
+          },
+        },
+        response: {
+          201: collectionResponse,
+        },
+      },
+    },
+    CollectionController.createCollection as any
+  );
+
+  // Get collections
+  fastify.get(
+    '/',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Get collections',
+        description: "Get the current user's collections in their order",
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: collectionsResponse,
+        },
+      },
+    },
+    CollectionController.getCollections as any
+  );
+
+  // Reorder collections
+  fastify.put(
+    '/order',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Reorder collections',
+        description:
+          'Set the order of your collections; unlisted ones follow in their current order',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['collectionIds'],
+          properties: {
+            collectionIds: {
+              type: 'array',
+              items: { type: 'string' },
+              minItems: 1,
+              description: 'Collection IDs in display order',
+            },
+          },
+        },
+        response: {
+          200: collectionsResponse,
+        },
+      },
+    },
+    CollectionController.reorderCollections as any
+  );
+
+  // Get collection
+  fastify.get(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Get collection',
+        description: 'Get a collection with its posts in order',
+        security: [{ bearerAuth: [] }],
+        params: collectionIdParams,
+        querystring: {
+          type: 'object',
+          properties: {
+            page: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Page number',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 50,
+              default: 10,
+              description: 'Results per page',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  collection: collectionSchema,
+                  items: {
+                    type: 'array',
+                    items: postSchemas,
+                  },
+                  total: { type: 'integer' },
+                  page: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  totalPages: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                  hasPrevious: { type: 'boolean' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    CollectionController.getCollection as any
+  );
+
+  // Update collection
+  fastify.put(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Update collection',
+        description:
+          'Rename a collection, change its cover or replace its ordered posts',
+        security: [{ bearerAuth: [] }],
+        params: collectionIdParams,
+        body: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', minLength: 1, maxLength: 50 },
+            coverUrl: {
+              type: 'string',
+              nullable: true,
+              description: 'Set to null to use the first post as cover',
+            },
+            postIds: postIdsSchema,
+          },
+        },
+        response: {
+          200: collectionResponse,
+        },
+      },
+    },
+    CollectionController.updateCollection as any
+  );
+
+  // Delete collection
+  fastify.delete(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Delete collection',
+        description: 'Delete a collection; its posts stay saved',
+        security: [{ bearerAuth: [] }],
+        params: collectionIdParams,
+        response: {
+          200: messageResponse,
+        },
+      },
+    },
+    CollectionController.deleteCollection as any
+  );
+
+  // Add post to collection
+  fastify.post(
+    '/:id/posts',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Add post to collection',
+        description:
+          'Add a post to the end of a collection, saving it if it is not saved yet',
+        security: [{ bearerAuth: [] }],
+        params: collectionIdParams,
+        body: {
+          type: 'object',
+          required: ['postId'],
+          properties: {
+            postId: { type: 'string', description: 'Post ID' },
+          },
+        },
+        response: {
+          200: collectionResponse,
+        },
+      },
+    },
+    CollectionController.addPostToCollection as any
+  );
+
+  // Remove post from collection
+  fastify.delete(
+    '/:id/posts/:postId',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Remove post from collection',
+        description: 'Remove a post from a collection; it stays saved',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id', 'postId'],
+          properties: {
+            id: { type: 'string', description: 'Collection ID' },
+            postId: { type: 'string', description: 'Post ID' },
+          },
+        },
+        response: {
+          200: messageResponse,
+        },
+      },
+    },
+    CollectionController.removePostFromCollection as any
+  );
+}
@@ -1,6 +1,6 @@
 import { FastifyInstance } from 'fastify';
 import { CommentController } from '../controllers/comment';
-import { authenticate, userRateLimit } from '../middleware/auth';
+import { authenticate, userRateLimit, optionalAuth } from '../middleware/auth';
 import { validationMiddlewares } from '../middleware/validation';
 
 export async function commentRoutes(fastify: FastifyInstance) {
@@ -64,6 +64,16 @@ export async function commentRoutes(fastify: FastifyInstance) {
                       isVerified: { type: 'boolean' },
                     },
                   },
+                  mentions: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        username: { type: 'string' },
+                      },
+                    },
+                  },
                 },
               },
               timestamp: { type: 'string' },
@@ -171,6 +181,16 @@ export async function commentRoutes(fastify: FastifyInstance) {
                       isVerified: { type: 'boolean' },
                     },
                   },
+                  mentions: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        username: { type: 'string' },
+                      },
+                    },
+                  },
                 },
               },
               timestamp: { type: 'string' },
@@ -186,7 +206,7 @@ export async function commentRoutes(fastify: FastifyInstance) {
   fastify.get(
     '/comments/:id/replies',
     {
-      preHandler: [validationMiddlewares.validateId],
+      preHandler: [optionalAuth, validationMiddlewares.validateId],
       schema: {
         tags: ['Comments'],
         summary: 'Get comment replies',
@@ -249,6 +269,16 @@ export async function commentRoutes(fastify: FastifyInstance) {
                             isVerified: { type: 'boolean' },
                           },
                         },
+                        mentions: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              id: { type: 'string' },
+                              username: { type: 'string' },
+                            },
+                          },
+                        },
                       },
                     },
                   },
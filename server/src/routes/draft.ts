@@ -0,0 +1,321 @@
+import { FastifyInstance } from 'fastify';
+import { DraftController } from '../controllers/draft';
+import { authenticate, userRateLimit } from '../middleware/auth';
+import { postSchemas } from '../middleware/validation';
+import { MAX_SCHEDULE_AHEAD_DAYS } from '../services/draft.service';
+import { MAX_POST_MEDIA } from '../services/post-media.service';
+
+// A stored rendition of an image
+const imageVariantSchema = {
+  type: 'object',
+  properties: {
+    url: { type: 'string' },
+    width: { type: 'number' },
+    height: { type: 'number' },
+    format: { type: 'string', enum: ['jpeg', 'png', 'gif', 'webp', 'avif'] },
+  },
+};
+
+const draftSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    userId: { type: 'string' },
+    caption: { type: 'string', nullable: true },
+    location: { type: 'string', nullable: true },
+    commentsEnabled: { type: 'boolean' },
+    likesEnabled: { type: 'boolean' },
+    status: { type: 'string', enum: ['DRAFT', 'SCHEDULED'] },
+    publishAt: { type: 'string', nullable: true },
+    publishError: { type: 'string', nullable: true },
+    media: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          url: { type: 'string' },
+          type: { type: 'string', enum: ['IMAGE', 'VIDEO', 'AUDIO'] },
+          width: { type: 'number', nullable: true },
+          height: { type: 'number', nullable: true },
+          duration: { type: 'number', nullable: true },
+          posterUrl: { type: 'string', nullable: true },
+          variants: {
+            type: 'array',
+            nullable: true,
+            items: imageVariantSchema,
+          },
+          placeholder: { type: 'string', nullable: true },
+          order: { type: 'number' },
+        },
+      },
+    },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
+const draftResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+    data: draftSchema,
+    timestamp: { type: 'string' },
+  },
+};
+
+const messageResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+    timestamp: { type: 'string' },
+  },
+};
+
+const draftIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Draft ID' },
+  },
+};
+
+export async function draftRoutes(fastify: FastifyInstance) {
+  // Create draft
+  fastify.post(
+    '/',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Create draft',
+        description: `Save a post as a draft with up to ${MAX_POST_MEDIA} images or videos, sent as for creating a post; with a publishAt form field (ISO date, at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead) it is scheduled instead`,
+        security: [{ bearerAuth: [] }],
+        consumes: ['multipart/form-data'],
+        response: {
+          201: draftResponse,
+        },
+      },
+    },
+    DraftController.createDraft as any
+  );
+
+  // Get drafts
+  fastify.get(
+    '/',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Get drafts',
+        description:
+          'Get your drafts and scheduled posts: scheduled posts first, soonest first, then drafts by last edit',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['DRAFT', 'SCHEDULED'] },
+            page: { type: 'integer', minimum: 1, default: 1 },
+            limit: { type: 'integer', minimum: 1, maximum: 50, default: 20 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  items: { type: 'array', items: draftSchema },
+                  total: { type: 'integer' },
+                  page: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  totalPages: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    DraftController.getDrafts as any
+  );
+
+  // Get draft
+  fastify.get(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Get draft',
+        description: 'Get one of your drafts or scheduled posts',
+        security: [{ bearerAuth: [] }],
+        params: draftIdParams,
+        response: {
+          200: draftResponse,
+        },
+      },
+    },
+    DraftController.getDraft as any
+  );
+
+  // Update draft
+  fastify.put(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Update draft',
+        description:
+          'Edit a draft or scheduled post; mediaIds lists the media to keep in display order, and the rest is removed',
+        security: [{ bearerAuth: [] }],
+        params: draftIdParams,
+        body: {
+          type: 'object',
+          properties: {
+            caption: { type: 'string', maxLength: 2200, nullable: true },
+            location: { type: 'string', maxLength: 100, nullable: true },
+            commentsEnabled: { type: 'boolean' },
+            likesEnabled: { type: 'boolean' },
+            mediaIds: {
+              type: 'array',
+              items: { type: 'string' },
+              maxItems: MAX_POST_MEDIA,
+              description: 'IDs of the draft media to keep, in display order',
+            },
+          },
+        },
+        response: {
+          200: draftResponse,
+        },
+      },
+    },
+    DraftController.updateDraft as any
+  );
+
+  // Add draft media
+  fastify.post(
+    '/:id/media',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Add draft media',
+        description:
+          'Add images or videos to the end of a draft, as files or as a mediaIds form field of comma-separated chunked upload IDs',
+        security: [{ bearerAuth: [] }],
+        consumes: ['multipart/form-data'],
+        params: draftIdParams,
+        response: {
+          201: draftResponse,
+        },
+      },
+    },
+    DraftController.addDraftMedia as any
+  );
+
+  // Schedule draft
+  fastify.put(
+    '/:id/schedule',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Schedule draft',
+        description: `Schedule a draft to be published, or move a scheduled post, at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`,
+        security: [{ bearerAuth: [] }],
+        params: draftIdParams,
+        body: {
+          type: 'object',
+          required: ['publishAt'],
+          properties: {
+            publishAt: {
+              type: 'string',
+              format: 'date-time',
+              description: 'When to publish the post',
+            },
+          },
+        },
+        response: {
+          200: draftResponse,
+        },
+      },
+    },
+    DraftController.scheduleDraft as any
+  );
+
+  // Unschedule draft
+  fastify.delete(
+    '/:id/schedule',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Unschedule draft',
+        description: 'Cancel a scheduled post, keeping it as a draft',
+        security: [{ bearerAuth: [] }],
+        params: draftIdParams,
+        response: {
+          200: draftResponse,
+        },
+      },
+    },
+    DraftController.unscheduleDraft as any
+  );
+
+  // Publish draft
+  fastify.post(
+    '/:id/publish',
+    {
+      preHandler: [
+        authenticate,
+        userRateLimit(10, 900000), // 10 posts per 15 minutes
+      ],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Publish draft',
+        description: 'Publish a draft or scheduled post now',
+        security: [{ bearerAuth: [] }],
+        params: draftIdParams,
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: postSchemas,
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    DraftController.publishDraft as any
+  );
+
+  // Delete draft
+  fastify.delete(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Delete draft',
+        description: 'Delete a draft or scheduled post and its media',
+        security: [{ bearerAuth: [] }],
+        params: draftIdParams,
+        response: {
+          200: messageResponse,
+        },
+      },
+    },
+    DraftController.deleteDraft as any
+  );
+}
@@ -2,6 +2,17 @@ import { FastifyInstance } from 'fastify';
 import { HashtagController } from '../controllers/hashtag';
 import { authenticate, optionalAuth } from '../middleware/auth';
 
+// A stored rendition of an image
+const imageVariantSchema = {
+  type: 'object',
+  properties: {
+    url: { type: 'string' },
+    width: { type: 'number' },
+    height: { type: 'number' },
+    format: { type: 'string', enum: ['jpeg', 'png', 'gif', 'webp', 'avif'] },
+  },
+};
+
 export async function hashtagRoutes(fastify: FastifyInstance) {
   // Get trending hashtags
   fastify.get(
@@ -11,10 +22,17 @@ export async function hashtagRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Hashtags'],
         summary: 'Get trending hashtags',
-        description: 'Get list of trending hashtags',
+        description:
+          'Get hashtags trending in a recent time window, or all-time by post count',
         querystring: {
           type: 'object',
           properties: {
+            window: {
+              type: 'string',
+              enum: ['1h', '24h', '7d', 'all'],
+              default: '24h',
+              description: 'Trending window',
+            },
             page: {
               type: 'integer',
               minimum: 1,
@@ -46,6 +64,9 @@ export async function hashtagRoutes(fastify: FastifyInstance) {
                         id: { type: 'string' },
                         name: { type: 'string' },
                         postsCount: { type: 'number' },
+                        score: { type: 'number' },
+                        recentPostsCount: { type: 'number' },
+                        computedAt: { type: 'string' },
                         createdAt: { type: 'string' },
                       },
                     },
@@ -186,8 +207,17 @@ export async function hashtagRoutes(fastify: FastifyInstance) {
                               id: { type: 'string' },
                               url: { type: 'string' },
                               type: { type: 'string' },
-                              width: { type: 'number' },
-                              height: { type: 'number' },
+                              width: { type: 'number', nullable: true },
+                              height: { type: 'number', nullable: true },
+                              duration: { type: 'number', nullable: true },
+                              posterUrl: { type: 'string', nullable: true },
+                              variants: {
+                                type: 'array',
+                                nullable: true,
+                                items: imageVariantSchema,
+                              },
+                              placeholder: { type: 'string', nullable: true },
+                              order: { type: 'number' },
                             },
                           },
                         },
@@ -0,0 +1,209 @@
+import { FastifyInstance } from 'fastify';
+import { HighlightController } from '../controllers/highlight';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { MAX_HIGHLIGHT_STORIES } from '../services/highlight.service';
+
+const highlightSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    userId: { type: 'string' },
+    title: { type: 'string' },
+    coverUrl: { type: 'string', nullable: true },
+    cover: { type: 'string', nullable: true },
+    storiesCount: { type: 'integer' },
+    stories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          mediaUrl: { type: 'string' },
+          mediaType: { type: 'string' },
+          text: { type: 'string', nullable: true },
+          audience: { type: 'string' },
+          position: { type: 'integer' },
+          expiresAt: { type: 'string' },
+          createdAt: { type: 'string' },
+        },
+      },
+    },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
+const highlightResponse = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+    data: highlightSchema,
+    timestamp: { type: 'string' },
+  },
+};
+
+const highlightIdParams = {
+  type: 'object',
+  required: ['id'],
+  properties: {
+    id: { type: 'string', description: 'Highlight ID' },
+  },
+};
+
+const storyIdsSchema = {
+  type: 'array',
+  items: { type: 'string' },
+  minItems: 1,
+  maxItems: MAX_HIGHLIGHT_STORIES,
+  description: 'Story IDs in display order',
+};
+
+export async function highlightRoutes(fastify: FastifyInstance) {
+  // Create highlight
+  fastify.post(
+    '/',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Stories'],
+        summary: 'Create highlight',
+        description:
+          'Pin an ordered set of your stories to your profile; they stay available after they expire',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['title', 'storyIds'],
+          properties: {
+            title: { type: 'string', minLength: 1, maxLength: 50 },
+            coverUrl: {
+              type: 'string',
+              description: 'Cover image; defaults to the first story',
+            },
+            storyIds: storyIdsSchema,
+          },
+        },
+        response: {
+          201: highlightResponse,
+        },
+      },
+    },
+    HighlightController.createHighlight as any
+  );
+
+  // Get a user's highlights
+  fastify.get(
+    '/user/:userId',
+    {
+      preHandler: [optionalAuth],
+      schema: {
+        tags: ['Stories'],
+        summary: 'Get user highlights',
+        description:
+          "Get the highlights shown on a user's profile, including expired stories",
+        params: {
+          type: 'object',
+          required: ['userId'],
+          properties: {
+            userId: { type: 'string', description: 'User ID' },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  highlights: {
+                    type: 'array',
+                    items: highlightSchema,
+                  },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    HighlightController.getUserHighlights as any
+  );
+
+  // Get highlight
+  fastify.get(
+    '/:id',
+    {
+      preHandler: [optionalAuth],
+      schema: {
+        tags: ['Stories'],
+        summary: 'Get highlight',
+        description: 'Get a highlight with its stories in order',
+        params: highlightIdParams,
+        response: {
+          200: highlightResponse,
+        },
+      },
+    },
+    HighlightController.getHighlight as any
+  );
+
+  // Update highlight
+  fastify.put(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Stories'],
+        summary: 'Update highlight',
+        description:
+          'Rename a highlight, change its cover or replace its ordered stories',
+        security: [{ bearerAuth: [] }],
+        params: highlightIdParams,
+        body: {
+          type: 'object',
+          properties: {
+            title: { type: 'string', minLength: 1, maxLength: 50 },
+            coverUrl: {
+              type: 'string',
+              nullable: true,
+              description: 'Set to null to use the first story as cover',
+            },
+            storyIds: storyIdsSchema,
+          },
+        },
+        response: {
+          200: highlightResponse,
+        },
+      },
+    },
+    HighlightController.updateHighlight as any
+  );
+
+  // Delete highlight
+  fastify.delete(
+    '/:id',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Stories'],
+        summary: 'Delete highlight',
+        description: 'Delete a highlight; its stories are kept',
+        security: [{ bearerAuth: [] }],
+        params: highlightIdParams,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    HighlightController.deleteHighlight as any
+  );
+}
@@ -2,6 +2,8 @@ import { FastifyInstance } from 'fastify';
 import { MessageController } from '../controllers/message';
 import { authenticate } from '../middleware/auth';
 import { validationMiddlewares } from '../middleware/validation';
+import { MessageType } from '@prisma/client';
+import { storyReplySchema } from './story';
 
 export async function messageRoutes(fastify: FastifyInstance) {
   // Get conversation messages
@@ -43,35 +45,27 @@ export async function messageRoutes(fastify: FastifyInstance) {
             type: 'object',
             properties: {
               success: { type: 'boolean' },
+              message: { type: 'string' },
               data: {
-                type: 'array',
-                items: {
-                  type: 'object',
-                  properties: {
-                    id: { type: 'string' },
-                    content: { type: 'string' },
-                    type: {
-                      type: 'string',
-                      enum: ['TEXT', 'IMAGE', 'VIDEO', 'AUDIO', 'FILE'],
-                    },
-                    isEdited: { type: 'boolean' },
-                    createdAt: { type: 'string' },
-                    updatedAt: { type: 'string' },
-                    sender: {
-                      type: 'object',
-                      properties: {
-                        id: { type: 'string' },
-                        username: { type: 'string' },
-                        fullName: { type: 'string' },
-                        avatar: { type: 'string' },
-                        isVerified: { type: 'boolean' },
-                      },
-                    },
-                    replyTo: {
+                type: 'object',
+                properties: {
+                  items: {
+                    type: 'array',
+                    items: {
                       type: 'object',
                       properties: {
                         id: { type: 'string' },
                         content: { type: 'string' },
+                        messageType: {
+                          type: 'string',
+                          enum: Object.values(MessageType),
+                        },
+                        mediaUrl: { type: 'string', nullable: true },
+                        storyId: { type: 'string', nullable: true },
+                        storyReply: storyReplySchema,
+                        isEdited: { type: 'boolean' },
+                        createdAt: { type: 'string' },
+                        updatedAt: { type: 'string' },
                         sender: {
                           type: 'object',
                           properties: {
@@ -82,29 +76,52 @@ export async function messageRoutes(fastify: FastifyInstance) {
                             isVerified: { type: 'boolean' },
                           },
                         },
-                      },
-                    },
-                    reactions: {
-                      type: 'array',
-                      items: {
-                        type: 'object',
-                        properties: {
-                          id: { type: 'string' },
-                          emoji: { type: 'string' },
-                          user: {
+                        replyTo: {
+                          type: 'object',
+                          properties: {
+                            id: { type: 'string' },
+                            content: { type: 'string' },
+                            sender: {
+                              type: 'object',
+                              properties: {
+                                id: { type: 'string' },
+                                username: { type: 'string' },
+                                fullName: { type: 'string' },
+                                avatar: { type: 'string' },
+                                isVerified: { type: 'boolean' },
+                              },
+                            },
+                          },
+                        },
+                        reactions: {
+                          type: 'array',
+                          items: {
                             type: 'object',
                             properties: {
                               id: { type: 'string' },
-                              username: { type: 'string' },
-                              fullName: { type: 'string' },
-                              avatar: { type: 'string' },
-                              isVerified: { type: 'boolean' },
+                              emoji: { type: 'string' },
+                              user: {
+                                type: 'object',
+                                properties: {
+                                  id: { type: 'string' },
+                                  username: { type: 'string' },
+                                  fullName: { type: 'string' },
+                                  avatar: { type: 'string' },
+                                  isVerified: { type: 'boolean' },
+                                },
+                              },
                             },
                           },
                         },
                       },
                     },
                   },
+                  total: { type: 'integer' },
+                  page: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  totalPages: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                  hasPrevious: { type: 'boolean' },
                 },
               },
               timestamp: { type: 'string' },
@@ -154,6 +171,11 @@ export async function messageRoutes(fastify: FastifyInstance) {
               type: 'string',
               format: 'uuid',
             },
+            mediaId: {
+              type: 'string',
+              description:
+                'Media ID of a completed chunked upload; sets the message type',
+            },
           },
         },
         response: {
@@ -170,6 +192,7 @@ export async function messageRoutes(fastify: FastifyInstance) {
                     type: 'string',
                     enum: ['TEXT', 'IMAGE', 'VIDEO', 'AUDIO', 'FILE'],
                   },
+                  mediaUrl: { type: 'string', nullable: true },
                   createdAt: { type: 'string' },
                   updatedAt: { type: 'string' },
                   sender: {
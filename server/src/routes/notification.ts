@@ -0,0 +1,282 @@
+import { FastifyInstance } from 'fastify';
+import { NotificationController } from '../controllers/notification';
+import { authenticate } from '../middleware/auth';
+import { validationMiddlewares } from '../middleware/validation';
+
+const notificationSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: {
+      type: 'string',
+      enum: [
+        'LIKE',
+        'COMMENT',
+        'FOLLOW',
+        'MESSAGE',
+        'MENTION',
+        'POST_SHARE',
+        'STORY_VIEW',
+        'STORY_SCREENSHOT',
+      ],
+    },
+    title: { type: 'string' },
+    content: { type: 'string' },
+    data: { type: 'object', additionalProperties: true },
+    isRead: { type: 'boolean' },
+    createdAt: { type: 'string' },
+    sender: {
+      type: 'object',
+      nullable: true,
+      properties: {
+        id: { type: 'string' },
+        username: { type: 'string' },
+        fullName: { type: 'string' },
+        avatar: { type: 'string' },
+        isVerified: { type: 'boolean' },
+      },
+    },
+  },
+};
+
+export async function notificationRoutes(fastify: FastifyInstance) {
+  // Get current user's notifications
+  fastify.get(
+    '/',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Notifications'],
+        summary: 'Get notifications',
+        description: 'Get notifications of the authenticated user',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Page number',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 50,
+              default: 20,
+              description: 'Results per page',
+            },
+            unreadOnly: {
+              type: 'boolean',
+              default: false,
+              description: 'Only return unread notifications',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  items: {
+                    type: 'array',
+                    items: notificationSchema,
+                  },
+                  total: { type: 'integer' },
+                  page: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  totalPages: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                  hasPrevious: { type: 'boolean' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    NotificationController.getNotifications as any
+  );
+
+  // Get unread notifications count
+  fastify.get(
+    '/unread-count',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Notifications'],
+        summary: 'Get unread count',
+        description: 'Get the number of unread notifications',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  count: { type: 'integer' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    NotificationController.getUnreadCount as any
+  );
+
+  // Mark several notifications as read
+  fastify.put(
+    '/read',
+    {
+      preHandler: [authenticate, validationMiddlewares.markNotificationsRead],
+      schema: {
+        tags: ['Notifications'],
+        summary: 'Mark notifications as read',
+        description: 'Mark the given notifications as read',
+        security: [{ bearerAuth: [] }],
+        body: {
+          type: 'object',
+          required: ['notificationIds'],
+          properties: {
+            notificationIds: {
+              type: 'array',
+              minItems: 1,
+              items: { type: 'string' },
+              description: 'Notification IDs',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  updated: { type: 'integer' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    NotificationController.markManyAsRead as any
+  );
+
+  // Mark all notifications as read
+  fastify.put(
+    '/read-all',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Notifications'],
+        summary: 'Mark all notifications as read',
+        description: 'Mark every notification of the user as read',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  updated: { type: 'integer' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    NotificationController.markAllAsRead as any
+  );
+
+  // Mark single notification as read
+  fastify.put(
+    '/:id/read',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Notifications'],
+        summary: 'Mark notification as read',
+        description: 'Mark a single notification as read',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Notification ID',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    NotificationController.markAsRead as any
+  );
+
+  // Delete notification
+  fastify.delete(
+    '/:id',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Notifications'],
+        summary: 'Delete notification',
+        description: 'Delete a notification',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Notification ID',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    NotificationController.deleteNotification as any
+  );
+}
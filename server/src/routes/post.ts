@@ -3,6 +3,18 @@ import { PostController } from '../controllers/post';
 import { CommentController } from '../controllers/comment';
 import { authenticate, userRateLimit, optionalAuth } from '../middleware/auth';
 import { validationMiddlewares, postSchemas } from '../middleware/validation';
+import { MAX_POST_MEDIA } from '../services/post-media.service';
+
+// A stored rendition of an image
+const imageVariantSchema = {
+  type: 'object',
+  properties: {
+    url: { type: 'string' },
+    width: { type: 'number' },
+    height: { type: 'number' },
+    format: { type: 'string', enum: ['jpeg', 'png', 'gif', 'webp', 'avif'] },
+  },
+};
 
 export async function postRoutes(fastify: FastifyInstance) {
   // Create new post
@@ -12,29 +24,13 @@ export async function postRoutes(fastify: FastifyInstance) {
       preHandler: [
         authenticate,
         userRateLimit(10, 900000), // 10 posts per 15 minutes
-        validationMiddlewares.validatePostMedia,
       ],
       schema: {
         tags: ['Posts'],
         summary: 'Create new post',
-        description: 'Create a new post with image',
+        description: `Create a post with up to ${MAX_POST_MEDIA} images or videos in the order sent; caption, location and mediaIds (comma-separated IDs of chunked uploads, placed after the files) are form fields, best sent ahead of the files so a post that cannot be created is refused before they are stored`,
         security: [{ bearerAuth: [] }],
         consumes: ['multipart/form-data'],
-        body: {
-          type: 'object',
-          properties: {
-            caption: {
-              type: 'string',
-              maxLength: 2200,
-              description: 'Post caption',
-            },
-            location: {
-              type: 'string',
-              maxLength: 100,
-              description: 'Location',
-            },
-          },
-        },
         response: {
           201: {
             type: 'object',
@@ -146,6 +142,16 @@ export async function postRoutes(fastify: FastifyInstance) {
                       isVerified: { type: 'boolean' },
                     },
                   },
+                  mentions: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        username: { type: 'string' },
+                      },
+                    },
+                  },
                 },
               },
               timestamp: { type: 'string' },
@@ -161,7 +167,7 @@ export async function postRoutes(fastify: FastifyInstance) {
   fastify.get(
     '/:id/comments',
     {
-      preHandler: [validationMiddlewares.validateId],
+      preHandler: [optionalAuth, validationMiddlewares.validateId],
       schema: {
         tags: ['Comments'],
         summary: 'Get post comments',
@@ -225,6 +231,16 @@ export async function postRoutes(fastify: FastifyInstance) {
                             isVerified: { type: 'boolean' },
                           },
                         },
+                        mentions: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              id: { type: 'string' },
+                              username: { type: 'string' },
+                            },
+                          },
+                        },
                       },
                     },
                   },
@@ -470,6 +486,119 @@ export async function postRoutes(fastify: FastifyInstance) {
     PostController.getCurrentUserPosts as any
   );
 
+  // Get home feed
+  fastify.get(
+    '/feed',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Get home feed',
+        description:
+          'Get posts from followed users and the current user, newest first',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            cursor: {
+              type: 'string',
+              description: 'ID of the last post from the previous page',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 50,
+              default: 10,
+              description: 'Results per page',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  items: {
+                    type: 'array',
+                    items: postSchemas,
+                  },
+                  limit: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                  nextCursor: { type: 'string', nullable: true },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    PostController.getFeed as any
+  );
+
+  // Get saved posts
+  fastify.get(
+    '/saved',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Get saved posts',
+        description:
+          'Get all posts saved by the current user, most recently saved first',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Page number',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 50,
+              default: 10,
+              description: 'Results per page',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  items: {
+                    type: 'array',
+                    items: postSchemas,
+                  },
+                  total: { type: 'integer' },
+                  page: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  totalPages: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                  hasPrevious: { type: 'boolean' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    PostController.getSavedPosts as any
+  );
+
   // Archive post
   fastify.post(
     '/:id/archive',
@@ -549,12 +678,12 @@ export async function postRoutes(fastify: FastifyInstance) {
       preHandler: [
         authenticate,
         userRateLimit(10, 900000), // 10 uploads per 15 minutes
-        validationMiddlewares.validatePostMedia,
       ],
       schema: {
         tags: ['Posts'],
         summary: 'Upload post media',
-        description: 'Upload media for a post',
+        description:
+          'Upload an image or video for a post; images are stored as responsive variants with a blurred placeholder, videos get a poster frame and their duration. The media is kept for a post to use by its mediaId until it expires, like a chunked upload',
         security: [{ bearerAuth: [] }],
         consumes: ['multipart/form-data'],
         response: {
@@ -566,10 +695,19 @@ export async function postRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
+                  mediaId: { type: 'string' },
                   url: { type: 'string' },
                   type: { type: 'string', enum: ['IMAGE', 'VIDEO', 'AUDIO'] },
-                  width: { type: 'number' },
-                  height: { type: 'number' },
+                  width: { type: 'number', nullable: true },
+                  height: { type: 'number', nullable: true },
+                  duration: { type: 'number', nullable: true },
+                  posterUrl: { type: 'string', nullable: true },
+                  variants: {
+                    type: 'array',
+                    nullable: true,
+                    items: imageVariantSchema,
+                  },
+                  placeholder: { type: 'string', nullable: true },
                 },
               },
               timestamp: { type: 'string' },
@@ -593,7 +731,8 @@ export async function postRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Posts'],
         summary: 'Add media to post',
-        description: 'Add media to an existing post',
+        description:
+          'Add media you uploaded to the end of an existing post; its type, size, duration and variants come from the upload',
         security: [{ bearerAuth: [] }],
         params: {
           type: 'object',
@@ -608,24 +747,12 @@ export async function postRoutes(fastify: FastifyInstance) {
         },
         body: {
           type: 'object',
-          required: ['url', 'type'],
+          required: ['url'],
           properties: {
             url: {
               type: 'string',
-              description: 'Media URL',
-            },
-            type: {
-              type: 'string',
-              enum: ['IMAGE', 'VIDEO', 'AUDIO'],
-              description: 'Media type',
-            },
-            width: {
-              type: 'number',
-              description: 'Media width (for images)',
-            },
-            height: {
-              type: 'number',
-              description: 'Media height (for images)',
+              description:
+                'URL of media you uploaded and no post has taken yet, from a direct or chunked upload',
             },
           },
         },
@@ -642,8 +769,16 @@ export async function postRoutes(fastify: FastifyInstance) {
                   postId: { type: 'string' },
                   url: { type: 'string' },
                   type: { type: 'string', enum: ['IMAGE', 'VIDEO', 'AUDIO'] },
-                  width: { type: 'number' },
-                  height: { type: 'number' },
+                  width: { type: 'number', nullable: true },
+                  height: { type: 'number', nullable: true },
+                  duration: { type: 'number', nullable: true },
+                  posterUrl: { type: 'string', nullable: true },
+                  variants: {
+                    type: 'array',
+                    nullable: true,
+                    items: imageVariantSchema,
+                  },
+                  placeholder: { type: 'string', nullable: true },
                   order: { type: 'number' },
                   createdAt: { type: 'string' },
                 },
@@ -657,6 +792,87 @@ export async function postRoutes(fastify: FastifyInstance) {
     PostController.addMedia as any
   );
 
+  // Reorder post media
+  fastify.put(
+    '/:id/media/order',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Reorder post media',
+        description: 'Set the order of all media items of a post',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Post ID',
+            },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['mediaIds'],
+          properties: {
+            mediaIds: {
+              type: 'array',
+              items: { type: 'string' },
+              minItems: 1,
+              maxItems: MAX_POST_MEDIA,
+              description: 'Every media ID of the post in display order',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  media: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        postId: { type: 'string' },
+                        url: { type: 'string' },
+                        type: {
+                          type: 'string',
+                          enum: ['IMAGE', 'VIDEO', 'AUDIO'],
+                        },
+                        width: { type: 'number', nullable: true },
+                        height: { type: 'number', nullable: true },
+                        duration: { type: 'number', nullable: true },
+                        posterUrl: { type: 'string', nullable: true },
+                        variants: {
+                          type: 'array',
+                          nullable: true,
+                          items: imageVariantSchema,
+                        },
+                        placeholder: { type: 'string', nullable: true },
+                        order: { type: 'number' },
+                        createdAt: { type: 'string' },
+                      },
+                    },
+                  },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    PostController.reorderMedia as any
+  );
+
   // Remove media from post
   fastify.delete(
     '/:id/media/:mediaId',
@@ -770,11 +986,84 @@ export async function postRoutes(fastify: FastifyInstance) {
     PostController.unlikePost as any
   );
 
+  // Save a post
+  fastify.post(
+    '/:id/save',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Save a post',
+        description: 'Save a post to your private saved posts',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Post ID',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    PostController.savePost as any
+  );
+
+  // Unsave a post
+  fastify.delete(
+    '/:id/save',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Posts'],
+        summary: 'Unsave a post',
+        description:
+          'Remove a post from your saved posts and all of your collections',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Post ID',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    PostController.unsavePost as any
+  );
+
   // Get post likes count
   fastify.get(
     '/:id/likes',
     {
-      preHandler: [validationMiddlewares.validateId],
+      preHandler: [optionalAuth, validationMiddlewares.validateId],
       schema: {
         tags: ['Posts'],
         summary: 'Get post likes count',
@@ -814,7 +1103,7 @@ export async function postRoutes(fastify: FastifyInstance) {
   fastify.get(
     '/:id/likers',
     {
-      preHandler: [validationMiddlewares.validateId],
+      preHandler: [optionalAuth, validationMiddlewares.validateId],
       schema: {
         tags: ['Posts'],
         summary: 'Get post likers',
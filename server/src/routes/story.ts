@@ -1,7 +1,126 @@
 import { FastifyInstance } from 'fastify';
 import { StoryController } from '../controllers/story';
 import { authenticate, userRateLimit } from '../middleware/auth';
-import { ReactionType } from '@prisma/client';
+import { ReactionType, StickerType } from '@prisma/client';
+import { MAX_STORY_STICKERS } from '../services/sticker.service';
+
+// Story referenced by a story reply message
+export const storyReplySchema = {
+  type: 'object',
+  properties: {
+    storyId: { type: 'string', nullable: true },
+    isAvailable: { type: 'boolean' },
+    placeholder: { type: 'string' },
+    userId: { type: 'string' },
+    mediaUrl: { type: 'string' },
+    mediaType: { type: 'string' },
+    text: { type: 'string', nullable: true },
+    expiresAt: { type: 'string' },
+  },
+};
+
+const stickerOptionsSchema = {
+  type: 'array',
+  minItems: 2,
+  maxItems: 4,
+  items: { type: 'string', minLength: 1, maxLength: 40 },
+};
+
+// Type-specific sticker payloads
+const stickerDataSchemas: Record<StickerType, object> = {
+  POLL: {
+    type: 'object',
+    required: ['options'],
+    properties: {
+      question: { type: 'string', maxLength: 100 },
+      options: stickerOptionsSchema,
+    },
+  },
+  QUESTION: {
+    type: 'object',
+    required: ['prompt'],
+    properties: {
+      prompt: { type: 'string', minLength: 1, maxLength: 100 },
+    },
+  },
+  QUIZ: {
+    type: 'object',
+    required: ['question', 'options', 'correctOptionIndex'],
+    properties: {
+      question: { type: 'string', minLength: 1, maxLength: 100 },
+      options: stickerOptionsSchema,
+      correctOptionIndex: { type: 'integer', minimum: 0 },
+    },
+  },
+  EMOJI_SLIDER: {
+    type: 'object',
+    required: ['emoji'],
+    properties: {
+      question: { type: 'string', maxLength: 100 },
+      emoji: { type: 'string', minLength: 1, maxLength: 16 },
+    },
+  },
+  MENTION: {
+    type: 'object',
+    required: ['username'],
+    properties: {
+      username: { type: 'string', minLength: 1, maxLength: 31 },
+    },
+  },
+  LINK: {
+    type: 'object',
+    required: ['url'],
+    properties: {
+      url: { type: 'string', maxLength: 2048 },
+      label: { type: 'string', maxLength: 40 },
+    },
+  },
+};
+
+// Sticker placement relative to the story canvas
+const stickerPositionSchema = {
+  type: 'object',
+  required: ['x', 'y'],
+  properties: {
+    x: { type: 'number', minimum: 0, maximum: 1 },
+    y: { type: 'number', minimum: 0, maximum: 1 },
+    width: { type: 'number', minimum: 0, maximum: 1 },
+    height: { type: 'number', minimum: 0, maximum: 1 },
+    rotation: { type: 'number', minimum: -360, maximum: 360 },
+  },
+};
+
+// Sticker sent when creating a story
+const stickerInputSchema = {
+  type: 'object',
+  required: ['type', 'position', 'data'],
+  properties: {
+    type: { type: 'string', enum: Object.values(StickerType) },
+    position: stickerPositionSchema,
+    data: { type: 'object' },
+  },
+  allOf: Object.entries(stickerDataSchemas).map(([type, data]) => ({
+    if: { properties: { type: { const: type } } },
+    then: { properties: { data } },
+  })),
+};
+
+// Sticker as served to viewers
+const stickerSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    type: { type: 'string' },
+    position: { type: 'object', additionalProperties: true },
+    data: { type: 'object', additionalProperties: true },
+    viewerResponse: {
+      type: 'object',
+      nullable: true,
+      additionalProperties: true,
+    },
+    createdAt: { type: 'string' },
+  },
+};
 
 export async function storyRoutes(fastify: FastifyInstance) {
   // Create new story
@@ -15,26 +134,38 @@ export async function storyRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Stories'],
         summary: 'Create new story',
-        description: 'Create a new story with media',
+        description:
+          'Create a new story with media you uploaded and no story has taken yet, given by its media ID or URL',
         security: [{ bearerAuth: [] }],
         body: {
           type: 'object',
-          required: ['mediaUrl', 'mediaType'],
+          anyOf: [{ required: ['mediaUrl'] }, { required: ['mediaId'] }],
           properties: {
             mediaUrl: {
               type: 'string',
-              description: 'URL of the story media',
+              description: 'URL of media from a story upload',
             },
-            mediaType: {
+            mediaId: {
               type: 'string',
-              enum: ['IMAGE', 'VIDEO', 'AUDIO'],
-              description: 'Type of media',
+              description: 'Media ID of a story upload, direct or chunked',
             },
             text: {
               type: 'string',
               maxLength: 1000,
               description: 'Optional text overlay',
             },
+            audience: {
+              type: 'string',
+              enum: ['EVERYONE', 'CLOSE_FRIENDS'],
+              default: 'EVERYONE',
+              description: 'Who can see the story',
+            },
+            stickers: {
+              type: 'array',
+              maxItems: MAX_STORY_STICKERS,
+              items: stickerInputSchema,
+              description: 'Interactive stickers placed on the story',
+            },
           },
         },
         response: {
@@ -50,8 +181,10 @@ export async function storyRoutes(fastify: FastifyInstance) {
                   mediaUrl: { type: 'string' },
                   mediaType: { type: 'string' },
                   text: { type: 'string' },
+                  audience: { type: 'string' },
                   expiresAt: { type: 'string' },
                   createdAt: { type: 'string' },
+                  stickers: { type: 'array', items: stickerSchema },
                 },
               },
               timestamp: { type: 'string' },
@@ -90,8 +223,10 @@ export async function storyRoutes(fastify: FastifyInstance) {
                         mediaUrl: { type: 'string' },
                         mediaType: { type: 'string' },
                         text: { type: 'string' },
+                        audience: { type: 'string' },
                         expiresAt: { type: 'string' },
                         createdAt: { type: 'string' },
+                        stickers: { type: 'array', items: stickerSchema },
                         views: { type: 'number' },
                       },
                     },
@@ -107,6 +242,78 @@ export async function storyRoutes(fastify: FastifyInstance) {
     StoryController.getCurrentUserStories as any
   );
 
+  // Get story archive
+  fastify.get(
+    '/archive',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Stories'],
+        summary: 'Get story archive',
+        description:
+          "Get the authenticated user's expired stories, grouped by the day they were posted",
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'integer', minimum: 1, default: 1 },
+            limit: { type: 'integer', minimum: 1, maximum: 100, default: 30 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  archive: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        date: { type: 'string' },
+                        stories: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              id: { type: 'string' },
+                              mediaUrl: { type: 'string' },
+                              mediaType: { type: 'string' },
+                              text: { type: 'string' },
+                              audience: { type: 'string' },
+                              expiresAt: { type: 'string' },
+                              archivedAt: { type: 'string' },
+                              createdAt: { type: 'string' },
+                              viewsCount: { type: 'integer' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                  pagination: {
+                    type: 'object',
+                    properties: {
+                      total: { type: 'integer' },
+                      page: { type: 'integer' },
+                      limit: { type: 'integer' },
+                      pages: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    StoryController.getStoryArchive as any
+  );
+
   // Get user's stories
   fastify.get(
     '/user/:userId',
@@ -145,10 +352,13 @@ export async function storyRoutes(fastify: FastifyInstance) {
                         mediaUrl: { type: 'string' },
                         mediaType: { type: 'string' },
                         text: { type: 'string' },
+                        audience: { type: 'string' },
                         expiresAt: { type: 'string' },
                         createdAt: { type: 'string' },
+                        stickers: { type: 'array', items: stickerSchema },
                         views: { type: 'number' },
                         isViewed: { type: 'boolean' },
+                        isCloseFriends: { type: 'boolean' },
                       },
                     },
                   },
@@ -171,7 +381,8 @@ export async function storyRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Stories'],
         summary: 'Get stories feed',
-        description: 'Get stories from followed users',
+        description:
+          'Get stories from followed users; Close Friends stories are flagged with isCloseFriends',
         security: [{ bearerAuth: [] }],
         response: {
           200: {
@@ -190,10 +401,13 @@ export async function storyRoutes(fastify: FastifyInstance) {
                         mediaUrl: { type: 'string' },
                         mediaType: { type: 'string' },
                         text: { type: 'string' },
+                        audience: { type: 'string' },
                         expiresAt: { type: 'string' },
                         createdAt: { type: 'string' },
+                        stickers: { type: 'array', items: stickerSchema },
                         views: { type: 'number' },
                         isViewed: { type: 'boolean' },
+                        isCloseFriends: { type: 'boolean' },
                         user: {
                           type: 'object',
                           properties: {
@@ -265,7 +479,8 @@ export async function storyRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Stories'],
         summary: 'Upload story media',
-        description: 'Upload media for a story',
+        description:
+          'Upload media for a story; it is kept for a story to use by its mediaId or URL until it expires, like a chunked upload',
         security: [{ bearerAuth: [] }],
         consumes: ['multipart/form-data'],
         response: {
@@ -277,10 +492,11 @@ export async function storyRoutes(fastify: FastifyInstance) {
               data: {
                 type: 'object',
                 properties: {
+                  mediaId: { type: 'string' },
                   url: { type: 'string' },
                   type: { type: 'string', enum: ['IMAGE', 'VIDEO', 'AUDIO'] },
-                  width: { type: 'number' },
-                  height: { type: 'number' },
+                  width: { type: 'number', nullable: true },
+                  height: { type: 'number', nullable: true },
                 },
               },
               timestamp: { type: 'string' },
@@ -386,6 +602,8 @@ export async function storyRoutes(fastify: FastifyInstance) {
                         avatar: { type: 'string' },
                         isVerified: { type: 'boolean' },
                         viewedAt: { type: 'string' },
+                        screenshotCount: { type: 'integer' },
+                        lastScreenshotAt: { type: 'string', nullable: true },
                       },
                     },
                   },
@@ -409,6 +627,93 @@ export async function storyRoutes(fastify: FastifyInstance) {
     StoryController.getStoryViewers as any
   );
 
+  // Get story screenshots
+  fastify.get(
+    '/:id/screenshots',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Stories'],
+        summary: 'Get story screenshots',
+        description: 'Get every screenshot taken of a story, newest first',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Story ID',
+            },
+          },
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            page: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Page number',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 50,
+              default: 10,
+              description: 'Results per page',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  screenshots: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        user: {
+                          type: 'object',
+                          properties: {
+                            id: { type: 'string' },
+                            username: { type: 'string' },
+                            fullName: { type: 'string' },
+                            avatar: { type: 'string', nullable: true },
+                            isVerified: { type: 'boolean' },
+                          },
+                        },
+                        takenAt: { type: 'string' },
+                      },
+                    },
+                  },
+                  pagination: {
+                    type: 'object',
+                    properties: {
+                      total: { type: 'integer' },
+                      page: { type: 'integer' },
+                      limit: { type: 'integer' },
+                      pages: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    StoryController.getStoryScreenshots as any
+  );
+
   // React to story
   fastify.post(
     '/:id/react',
@@ -463,4 +768,221 @@ export async function storyRoutes(fastify: FastifyInstance) {
     },
     StoryController.reactToStory as any
   );
+
+  // Reply to story
+  fastify.post(
+    '/:id/reply',
+    {
+      preHandler: [
+        authenticate,
+        userRateLimit(60, 900000), // 60 replies per 15 minutes
+      ],
+      schema: {
+        tags: ['Stories'],
+        summary: 'Reply to story',
+        description:
+          'Send a reply to the story owner as a direct message that references the story',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Story ID',
+            },
+          },
+        },
+        body: {
+          type: 'object',
+          required: ['content'],
+          properties: {
+            content: {
+              type: 'string',
+              minLength: 1,
+              maxLength: 1000,
+              description: 'Reply text',
+            },
+          },
+        },
+        response: {
+          201: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  conversationId: { type: 'string' },
+                  content: { type: 'string' },
+                  messageType: { type: 'string' },
+                  storyId: { type: 'string' },
+                  createdAt: { type: 'string' },
+                  storyReply: storyReplySchema,
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    StoryController.replyToStory as any
+  );
+
+  // Respond to a story sticker
+  fastify.post(
+    '/:id/stickers/:stickerId/respond',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Stories'],
+        summary: 'Respond to story sticker',
+        description:
+          'Vote in a poll (optionIndex), answer a quiz (optionIndex), answer a question box (text) or move an emoji slider (value)',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id', 'stickerId'],
+          properties: {
+            id: { type: 'string', description: 'Story ID' },
+            stickerId: { type: 'string', description: 'Sticker ID' },
+          },
+        },
+        body: {
+          type: 'object',
+          properties: {
+            optionIndex: { type: 'integer', minimum: 0 },
+            text: { type: 'string', minLength: 1, maxLength: 280 },
+            value: { type: 'number', minimum: 0, maximum: 1 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string' },
+                  optionIndex: { type: 'integer', nullable: true },
+                  text: { type: 'string', nullable: true },
+                  value: { type: 'number', nullable: true },
+                  isCorrect: { type: 'boolean' },
+                  createdAt: { type: 'string' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    StoryController.respondToSticker as any
+  );
+
+  // Get story sticker results
+  fastify.get(
+    '/:id/stickers/:stickerId/results',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Stories'],
+        summary: 'Get story sticker results',
+        description:
+          'Get aggregated results and individual answers for a sticker on your story',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id', 'stickerId'],
+          properties: {
+            id: { type: 'string', description: 'Story ID' },
+            stickerId: { type: 'string', description: 'Sticker ID' },
+          },
+        },
+        querystring: {
+          type: 'object',
+          properties: {
+            page: { type: 'integer', minimum: 1, default: 1 },
+            limit: { type: 'integer', minimum: 1, maximum: 100, default: 20 },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  stickerId: { type: 'string' },
+                  type: { type: 'string' },
+                  results: {
+                    type: 'object',
+                    properties: {
+                      total: { type: 'integer' },
+                      options: {
+                        type: 'array',
+                        items: {
+                          type: 'object',
+                          properties: {
+                            index: { type: 'integer' },
+                            label: { type: 'string' },
+                            count: { type: 'integer' },
+                            percentage: { type: 'integer' },
+                          },
+                        },
+                      },
+                      correctCount: { type: 'integer' },
+                      averageValue: { type: 'number', nullable: true },
+                    },
+                  },
+                  responses: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        optionIndex: { type: 'integer', nullable: true },
+                        text: { type: 'string', nullable: true },
+                        value: { type: 'number', nullable: true },
+                        isCorrect: { type: 'boolean' },
+                        createdAt: { type: 'string' },
+                        user: {
+                          type: 'object',
+                          properties: {
+                            id: { type: 'string' },
+                            username: { type: 'string' },
+                            fullName: { type: 'string' },
+                            avatar: { type: 'string' },
+                            isVerified: { type: 'boolean' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                  pagination: {
+                    type: 'object',
+                    properties: {
+                      total: { type: 'integer' },
+                      page: { type: 'integer' },
+                      limit: { type: 'integer' },
+                      pages: { type: 'integer' },
+                    },
+                  },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    StoryController.getStickerResults as any
+  );
 }
@@ -1,6 +1,11 @@
 import { FastifyInstance } from 'fastify';
 import { UserController } from '../controllers/user';
-import { authenticate, userRateLimit, optionalAuth } from '../middleware/auth';
+import {
+  authenticate,
+  userRateLimit,
+  optionalAuth,
+  requireAdmin,
+} from '../middleware/auth';
 import { validationMiddlewares, userSchemas } from '../middleware/validation';
 
 export async function userRoutes(fastify: FastifyInstance) {
@@ -330,6 +335,102 @@ export async function userRoutes(fastify: FastifyInstance) {
     UserController.removeAvatar
   );
 
+  // Get current user storage usage
+  fastify.get(
+    '/me/storage',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Users'],
+        summary: 'Get storage usage',
+        description:
+          'Get how much storage the authenticated user media takes, by category, against their quota',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  used: { type: 'number' },
+                  quota: { type: 'number' },
+                  remaining: { type: 'number' },
+                  categories: {
+                    type: 'object',
+                    properties: {
+                      posts: { type: 'number' },
+                      drafts: { type: 'number' },
+                      stories: { type: 'number' },
+                      avatar: { type: 'number' },
+                      messages: { type: 'number' },
+                      uploads: { type: 'number' },
+                    },
+                  },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.getStorageUsage
+  );
+
+  // Get storage totals (admin)
+  fastify.get(
+    '/admin/storage',
+    {
+      preHandler: [authenticate, requireAdmin],
+      schema: {
+        tags: ['Users'],
+        summary: 'Get storage overview',
+        description:
+          'Get storage totals across all users and, when used, the Cloudinary account usage. Admins only.',
+        security: [{ bearerAuth: [] }],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  driver: { type: 'string' },
+                  quota: { type: 'number' },
+                  media: {
+                    type: 'object',
+                    properties: {
+                      files: { type: 'number' },
+                      bytes: { type: 'number' },
+                      unusedFiles: { type: 'number' },
+                      unusedBytes: { type: 'number' },
+                    },
+                  },
+                  cloudinary: {
+                    type: 'object',
+                    nullable: true,
+                    properties: {
+                      usedStorage: { type: 'number' },
+                      storageLimit: { type: 'number', nullable: true },
+                      usedBandwidth: { type: 'number' },
+                      bandwidthLimit: { type: 'number', nullable: true },
+                      lastUpdated: { type: 'string' },
+                    },
+                  },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.getStorageOverview
+  );
+
   // Search users
   fastify.get(
     '/search',
@@ -395,6 +496,69 @@ export async function userRoutes(fastify: FastifyInstance) {
     UserController.search as any
   );
 
+  // Autocomplete users for @mentions
+  fastify.get(
+    '/autocomplete',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Users'],
+        summary: 'Autocomplete mentions',
+        description:
+          'Suggest users for an @mention prefix, ranking people the viewer follows first',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          required: ['query'],
+          properties: {
+            query: {
+              type: 'string',
+              minLength: 1,
+              maxLength: 30,
+              description: 'Username or name prefix, with or without @',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 20,
+              default: 8,
+              description: 'Number of suggestions',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              data: {
+                type: 'object',
+                properties: {
+                  users: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        username: { type: 'string' },
+                        fullName: { type: 'string' },
+                        avatar: { type: 'string' },
+                        isVerified: { type: 'boolean' },
+                        isFollowing: { type: 'boolean' },
+                      },
+                    },
+                  },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.autocomplete as any
+  );
+
   // Get follow suggestions
   fastify.get(
     '/suggestions',
@@ -498,7 +662,8 @@ export async function userRoutes(fastify: FastifyInstance) {
       schema: {
         tags: ['Users'],
         summary: 'Follow a user',
-        description: 'Follow another user',
+        description:
+          'Follow another user. Following a private account sends a follow request instead',
         security: [{ bearerAuth: [] }],
         params: {
           type: 'object',
@@ -517,6 +682,27 @@ export async function userRoutes(fastify: FastifyInstance) {
             properties: {
               success: { type: 'boolean' },
               message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  status: { type: 'string', enum: ['following'] },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+          202: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  status: { type: 'string', enum: ['requested'] },
+                  requestId: { type: 'string' },
+                },
+              },
               timestamp: { type: 'string' },
             },
           },
@@ -562,6 +748,716 @@ export async function userRoutes(fastify: FastifyInstance) {
     UserController.unfollowUser as any
   );
 
+  // Cancel a follow request
+  fastify.delete(
+    '/:id/follow-request',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Users'],
+        summary: 'Cancel follow request',
+        description:
+          'Cancel a pending follow request sent to a private account',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'User ID the request was sent to',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.cancelFollowRequest as any
+  );
+
+  // Get incoming follow requests
+  fastify.get(
+    '/me/follow-requests',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Users'],
+        summary: 'Get follow requests',
+        description:
+          'Get pending follow requests sent to the authenticated user',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Page number',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 50,
+              default: 20,
+              description: 'Results per page',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  items: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        requesterId: { type: 'string' },
+                        targetId: { type: 'string' },
+                        createdAt: { type: 'string' },
+                        requester: {
+                          type: 'object',
+                          properties: {
+                            id: { type: 'string' },
+                            username: { type: 'string' },
+                            fullName: { type: 'string' },
+                            avatar: { type: 'string' },
+                            isVerified: { type: 'boolean' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                  total: { type: 'integer' },
+                  page: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  totalPages: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                  hasPrevious: { type: 'boolean' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.getFollowRequests as any
+  );
+
+  // Get outgoing follow requests
+  fastify.get(
+    '/me/follow-requests/sent',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Users'],
+        summary: 'Get sent follow requests',
+        description:
+          'Get pending follow requests sent by the authenticated user',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Page number',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 50,
+              default: 20,
+              description: 'Results per page',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  items: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        requesterId: { type: 'string' },
+                        targetId: { type: 'string' },
+                        createdAt: { type: 'string' },
+                        target: {
+                          type: 'object',
+                          properties: {
+                            id: { type: 'string' },
+                            username: { type: 'string' },
+                            fullName: { type: 'string' },
+                            avatar: { type: 'string' },
+                            isVerified: { type: 'boolean' },
+                          },
+                        },
+                      },
+                    },
+                  },
+                  total: { type: 'integer' },
+                  page: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  totalPages: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                  hasPrevious: { type: 'boolean' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.getSentFollowRequests as any
+  );
+
+  // Accept a follow request
+  fastify.post(
+    '/follow-requests/:id/accept',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Users'],
+        summary: 'Accept follow request',
+        description:
+          'Accept a pending follow request and add the requester as a follower',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Follow request ID',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.acceptFollowRequest as any
+  );
+
+  // Decline a follow request
+  fastify.post(
+    '/follow-requests/:id/decline',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Users'],
+        summary: 'Decline follow request',
+        description: 'Decline a pending follow request',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'Follow request ID',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.declineFollowRequest as any
+  );
+
+  // Block a user
+  fastify.post(
+    '/:id/block',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Users'],
+        summary: 'Block user',
+        description: 'Block a user and remove follows in both directions',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'User ID to block',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.blockUser as any
+  );
+
+  // Unblock a user
+  fastify.delete(
+    '/:id/block',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Users'],
+        summary: 'Unblock user',
+        description: 'Unblock a previously blocked user',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'User ID to unblock',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.unblockUser as any
+  );
+
+  // Get blocked users
+  fastify.get(
+    '/me/blocked',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Users'],
+        summary: 'Get blocked users',
+        description: 'Get users blocked by the authenticated user',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Page number',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 50,
+              default: 20,
+              description: 'Results per page',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  items: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        username: { type: 'string' },
+                        fullName: { type: 'string' },
+                        avatar: { type: 'string' },
+                        isVerified: { type: 'boolean' },
+                        blockedAt: { type: 'string' },
+                      },
+                    },
+                  },
+                  total: { type: 'integer' },
+                  page: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  totalPages: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                  hasPrevious: { type: 'boolean' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.getBlockedUsers as any
+  );
+
+  // Mute a user
+  fastify.post(
+    '/:id/mute',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Users'],
+        summary: 'Mute user',
+        description:
+          "Hide a user's posts and/or stories from your feeds without unfollowing. The muted user is not notified.",
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'User ID to mute',
+            },
+          },
+        },
+        body: {
+          type: 'object',
+          properties: {
+            posts: {
+              type: 'boolean',
+              default: true,
+              description: 'Hide their posts from the home feed',
+            },
+            stories: {
+              type: 'boolean',
+              default: true,
+              description: 'Hide their stories from the stories feed',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  mutePosts: { type: 'boolean' },
+                  muteStories: { type: 'boolean' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.muteUser as any
+  );
+
+  // Unmute a user
+  fastify.delete(
+    '/:id/mute',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Users'],
+        summary: 'Unmute user',
+        description: 'Unmute a previously muted user',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'User ID to unmute',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.unmuteUser as any
+  );
+
+  // Get muted users
+  fastify.get(
+    '/me/muted',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Users'],
+        summary: 'Get muted users',
+        description: 'Get users muted by the authenticated user',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Page number',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 50,
+              default: 20,
+              description: 'Results per page',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  items: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        username: { type: 'string' },
+                        fullName: { type: 'string' },
+                        avatar: { type: 'string' },
+                        isVerified: { type: 'boolean' },
+                        mutePosts: { type: 'boolean' },
+                        muteStories: { type: 'boolean' },
+                        mutedAt: { type: 'string' },
+                      },
+                    },
+                  },
+                  total: { type: 'integer' },
+                  page: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  totalPages: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                  hasPrevious: { type: 'boolean' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.getMutedUsers as any
+  );
+
+  // Add a user to Close Friends
+  fastify.post(
+    '/:id/close-friend',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Users'],
+        summary: 'Add close friend',
+        description:
+          'Add a user to your Close Friends list, who can then see your Close Friends stories',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'User ID to add',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.addCloseFriend as any
+  );
+
+  // Remove a user from Close Friends
+  fastify.delete(
+    '/:id/close-friend',
+    {
+      preHandler: [authenticate, validationMiddlewares.validateId],
+      schema: {
+        tags: ['Users'],
+        summary: 'Remove close friend',
+        description: 'Remove a user from your Close Friends list',
+        security: [{ bearerAuth: [] }],
+        params: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: {
+              type: 'string',
+              format: 'uuid',
+              description: 'User ID to remove',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.removeCloseFriend as any
+  );
+
+  // Get Close Friends
+  fastify.get(
+    '/me/close-friends',
+    {
+      preHandler: [authenticate],
+      schema: {
+        tags: ['Users'],
+        summary: 'Get close friends',
+        description: 'Get the Close Friends list of the authenticated user',
+        security: [{ bearerAuth: [] }],
+        querystring: {
+          type: 'object',
+          properties: {
+            page: {
+              type: 'integer',
+              minimum: 1,
+              default: 1,
+              description: 'Page number',
+            },
+            limit: {
+              type: 'integer',
+              minimum: 1,
+              maximum: 50,
+              default: 20,
+              description: 'Results per page',
+            },
+          },
+        },
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+              data: {
+                type: 'object',
+                properties: {
+                  items: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string' },
+                        username: { type: 'string' },
+                        fullName: { type: 'string' },
+                        avatar: { type: 'string' },
+                        isVerified: { type: 'boolean' },
+                        addedAt: { type: 'string' },
+                      },
+                    },
+                  },
+                  total: { type: 'integer' },
+                  page: { type: 'integer' },
+                  limit: { type: 'integer' },
+                  totalPages: { type: 'integer' },
+                  hasNext: { type: 'boolean' },
+                  hasPrevious: { type: 'boolean' },
+                },
+              },
+              timestamp: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
+    UserController.getCloseFriends as any
+  );
+
   // Get user's followers
   fastify.get(
     '/:id/followers',
@@ -0,0 +1,60 @@
+// Find stored media nothing refers to and delete it, or only list it with
+// --dry-run. Files younger than the grace period are kept; pass
+// --grace-hours=<hours> to override MEDIA_GC_GRACE_PERIOD_MS.
+// Usage: npm run media:gc -- [--dry-run] [--grace-hours=24]
+import 'dotenv/config';
+import {
+  config,
+  connectDatabase,
+  disconnectDatabase,
+} from '../config/database';
+import { MediaGcService } from '../services/media-gc.service';
+import logger from '../utils/logger';
+
+const args = process.argv.slice(2);
+const graceHours = args
+  .find((arg) => arg.startsWith('--grace-hours='))
+  ?.split('=')[1];
+
+const run = async () => {
+  if (graceHours !== undefined && !(Number(graceHours) >= 0)) {
+    logger.error(`❌ Invalid --grace-hours: ${graceHours}`);
+    process.exit(1);
+  }
+
+  try {
+    await connectDatabase();
+
+    const report = await MediaGcService.run({
+      dryRun: args.includes('--dry-run'),
+      gracePeriodMs:
+        graceHours !== undefined
+          ? Number(graceHours) * 3600000
+          : config.jobs.mediaGcGracePeriodMs,
+    });
+
+    for (const orphan of report.orphans) {
+      logger.info(
+        `${orphan.url} (${orphan.bytes} bytes, ${orphan.createdAt.toISOString()})`
+      );
+    }
+    logger.info(
+      report.dryRun
+        ? `✅ ${report.orphans.length} orphaned files (${report.orphanBytes} bytes) of ${report.scanned} stored, ${report.expiredUploads} expired uploads; nothing deleted`
+        : `✅ Deleted ${report.deleted} of ${report.orphans.length} orphaned files (${report.orphanBytes} bytes) of ${report.scanned} stored, ${report.expiredUploads} expired uploads removed`
+    );
+    if (report.unreachable.length > 0) {
+      logger.warn(
+        `⚠️ Could not list files in: ${report.unreachable.join(', ')}`
+      );
+    }
+
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Failed to collect orphaned media:', error);
+    process.exit(1);
+  }
+};
+
+run();
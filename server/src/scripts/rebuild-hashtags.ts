@@ -0,0 +1,25 @@
+// Rebuild the hashtag index (hashtags, post_hashtags) from post captions.
+// Usage: npm run hashtags:rebuild
+import 'dotenv/config';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { HashtagService } from '../services/hashtag.service';
+import logger from '../utils/logger';
+
+const run = async () => {
+  try {
+    await connectDatabase();
+
+    const result = await HashtagService.rebuildIndex();
+    logger.info(
+      `✅ Hashtag index rebuilt: ${result.posts} posts, ${result.hashtags} hashtags in use`
+    );
+
+    await disconnectDatabase();
+    process.exit(0);
+  } catch (error) {
+    logger.error('❌ Failed to rebuild hashtag index:', error);
+    process.exit(1);
+  }
+};
+
+run();
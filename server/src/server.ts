@@ -1,7 +1,10 @@
+// Load environment variables before any config is read
+import 'dotenv/config';
 import { fastify } from 'fastify';
 import { registerPlugins } from './app';
 import logger from './utils/logger';
 import SocketService from './services/socket.service';
+import { startBackgroundJobs, stopBackgroundJobs } from './jobs';
 
 const server = fastify({
   logger: false, // We'll use our custom logger
@@ -26,6 +29,9 @@ const start = async () => {
     logger.info(
       `📚 Swagger UI available at http://${host}:${port}/documentation`
     );
+
+    // Start background jobs
+    startBackgroundJobs();
   } catch (error) {
     logger.error('Error starting server:', error);
     process.exit(1);
@@ -36,6 +42,7 @@ const start = async () => {
 const gracefulShutdown = async () => {
   try {
     logger.info('🔄 Gracefully shutting down server...');
+    stopBackgroundJobs();
     await server.close();
     logger.info('✅ Server closed successfully');
     process.exit(0);
@@ -0,0 +1,157 @@
+import { prisma } from '../../config/database';
+import { VisibilityService } from '../visibility.service';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    user: { findUnique: jest.fn() },
+    follow: { findUnique: jest.fn() },
+    block: { findFirst: jest.fn() },
+  },
+}));
+
+const db = prisma as unknown as {
+  user: { findUnique: jest.Mock };
+  follow: { findUnique: jest.Mock };
+  block: { findFirst: jest.Mock };
+};
+
+const OWNER_ID = 'owner';
+const FOLLOWER_ID = 'follower';
+const STRANGER_ID = 'stranger';
+
+const publicOwner = { id: OWNER_ID, isPrivate: false };
+const privateOwner = { id: OWNER_ID, isPrivate: true };
+
+// The follow table holds a single follow: follower -> owner
+const followsOwner = () =>
+  db.follow.findUnique.mockImplementation(({ where }) =>
+    Promise.resolve(
+      where.followerId_followingId.followerId === FOLLOWER_ID &&
+        where.followerId_followingId.followingId === OWNER_ID
+        ? { id: 'follow' }
+        : null
+    )
+  );
+
+describe('VisibilityService.canView', () => {
+  beforeEach(() => {
+    db.block.findFirst.mockResolvedValue(null);
+    followsOwner();
+  });
+
+  describe('public account', () => {
+    it.each([
+      ['owner', OWNER_ID],
+      ['follower', FOLLOWER_ID],
+      ['non-follower', STRANGER_ID],
+      ['anonymous viewer', null],
+    ])('is visible to the %s', async (_viewer, viewerId) => {
+      await expect(
+        VisibilityService.canView(viewerId, publicOwner)
+      ).resolves.toBe(true);
+    });
+
+    it('is hidden from a user blocked either way', async () => {
+      db.block.findFirst.mockResolvedValue({ id: 'block' });
+
+      await expect(
+        VisibilityService.canView(STRANGER_ID, publicOwner)
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('private account', () => {
+    it('is visible to the owner', async () => {
+      await expect(
+        VisibilityService.canView(OWNER_ID, privateOwner)
+      ).resolves.toBe(true);
+    });
+
+    it('is visible to a follower', async () => {
+      await expect(
+        VisibilityService.canView(FOLLOWER_ID, privateOwner)
+      ).resolves.toBe(true);
+    });
+
+    it('is hidden from a non-follower', async () => {
+      await expect(
+        VisibilityService.canView(STRANGER_ID, privateOwner)
+      ).resolves.toBe(false);
+    });
+
+    it('is hidden from an anonymous viewer', async () => {
+      await expect(VisibilityService.canView(null, privateOwner)).resolves.toBe(
+        false
+      );
+      await expect(
+        VisibilityService.canView(undefined, privateOwner)
+      ).resolves.toBe(false);
+    });
+
+    it('is hidden from a follower who is blocked', async () => {
+      db.block.findFirst.mockResolvedValue({ id: 'block' });
+
+      await expect(
+        VisibilityService.canView(FOLLOWER_ID, privateOwner)
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('owner given by ID', () => {
+    it('looks the owner up', async () => {
+      db.user.findUnique.mockResolvedValue(privateOwner);
+
+      await expect(
+        VisibilityService.canView(FOLLOWER_ID, OWNER_ID)
+      ).resolves.toBe(true);
+      expect(db.user.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: OWNER_ID } })
+      );
+    });
+
+    it('is not visible if the owner does not exist', async () => {
+      db.user.findUnique.mockResolvedValue(null);
+
+      await expect(VisibilityService.canView(OWNER_ID, OWNER_ID)).resolves.toBe(
+        false
+      );
+    });
+  });
+});
+
+describe('VisibilityService.visibleOwnersWhere', () => {
+  it('limits anonymous viewers to public accounts', () => {
+    expect(VisibilityService.visibleOwnersWhere(null)).toEqual({
+      isPrivate: false,
+    });
+    expect(VisibilityService.visibleOwnersWhere(undefined)).toEqual({
+      isPrivate: false,
+    });
+  });
+
+  it.each([
+    ['owner', OWNER_ID],
+    ['follower', FOLLOWER_ID],
+    ['non-follower', STRANGER_ID],
+  ])(
+    'lets the %s see public accounts, their own and those they follow',
+    (_viewer, viewerId) => {
+      expect(VisibilityService.visibleOwnersWhere(viewerId)).toEqual({
+        blocking: { none: { blockedId: viewerId } },
+        blockedBy: { none: { blockerId: viewerId } },
+        OR: [
+          { isPrivate: false },
+          { id: viewerId },
+          { followers: { some: { followerId: viewerId } } },
+        ],
+      });
+    }
+  );
+
+  it('does not query the database', () => {
+    VisibilityService.visibleOwnersWhere(FOLLOWER_ID);
+
+    expect(db.follow.findUnique).not.toHaveBeenCalled();
+    expect(db.user.findUnique).not.toHaveBeenCalled();
+  });
+});
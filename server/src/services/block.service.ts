@@ -0,0 +1,113 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+
+export class BlockService {
+  // Whether either user has blocked the other
+  static async isBlocked(userId1: string, userId2: string): Promise<boolean> {
+    if (userId1 === userId2) return false;
+
+    const block = await prisma.block.findFirst({
+      where: {
+        OR: [
+          { blockerId: userId1, blockedId: userId2 },
+          { blockerId: userId2, blockedId: userId1 },
+        ],
+      },
+      select: { id: true },
+    });
+
+    return !!block;
+  }
+
+  // IDs of users the given user blocked or was blocked by
+  static async getBlockedUserIds(userId: string): Promise<string[]> {
+    const blocks = await prisma.block.findMany({
+      where: {
+        OR: [{ blockerId: userId }, { blockedId: userId }],
+      },
+      select: { blockerId: true, blockedId: true },
+    });
+
+    return blocks.map((block) =>
+      block.blockerId === userId ? block.blockedId : block.blockerId
+    );
+  }
+
+  // Filter for users with no block in either direction with the viewer
+  static notBlockedWhere(
+    viewerId: string | null | undefined
+  ): Prisma.UserWhereInput {
+    if (!viewerId) return {};
+
+    return {
+      blocking: { none: { blockedId: viewerId } },
+      blockedBy: { none: { blockerId: viewerId } },
+    };
+  }
+
+  // Block a user, removing follows, follow requests and Close Friends
+  // entries in both directions and keeping follower counts in sync
+  static async block(blockerId: string, blockedId: string) {
+    return prisma.$transaction(async (tx) => {
+      const block = await tx.block.upsert({
+        where: {
+          blockerId_blockedId: { blockerId, blockedId },
+        },
+        create: { blockerId, blockedId },
+        update: {},
+      });
+
+      const follows = await tx.follow.findMany({
+        where: {
+          OR: [
+            { followerId: blockerId, followingId: blockedId },
+            { followerId: blockedId, followingId: blockerId },
+          ],
+        },
+      });
+
+      for (const follow of follows) {
+        await tx.follow.delete({ where: { id: follow.id } });
+        await tx.user.update({
+          where: { id: follow.followerId },
+          data: { followingCount: { decrement: 1 } },
+        });
+        await tx.user.update({
+          where: { id: follow.followingId },
+          data: { followersCount: { decrement: 1 } },
+        });
+      }
+
+      await tx.followRequest.deleteMany({
+        where: {
+          OR: [
+            { requesterId: blockerId, targetId: blockedId },
+            { requesterId: blockedId, targetId: blockerId },
+          ],
+        },
+      });
+
+      await tx.closeFriend.deleteMany({
+        where: {
+          OR: [
+            { userId: blockerId, friendId: blockedId },
+            { userId: blockedId, friendId: blockerId },
+          ],
+        },
+      });
+
+      return block;
+    });
+  }
+
+  // Lift a block; removed follows are not restored
+  static async unblock(blockerId: string, blockedId: string) {
+    await prisma.block.delete({
+      where: {
+        blockerId_blockedId: { blockerId, blockedId },
+      },
+    });
+  }
+}
+
+export default BlockService;
@@ -0,0 +1,72 @@
+import { Prisma, StoryAudience } from '@prisma/client';
+import { prisma } from '../config/database';
+
+export class CloseFriendService {
+  // Whether the owner has the given user on their Close Friends list
+  static async isCloseFriend(
+    ownerId: string,
+    friendId: string
+  ): Promise<boolean> {
+    const closeFriend = await prisma.closeFriend.findUnique({
+      where: {
+        userId_friendId: { userId: ownerId, friendId },
+      },
+      select: { id: true },
+    });
+
+    return !!closeFriend;
+  }
+
+  // Can the viewer see a story given its audience? Owners always see
+  // their own stories; Close Friends stories are only shown to users on
+  // the owner's list. Account visibility is checked separately.
+  static async canViewStory(
+    viewerId: string,
+    story: { userId: string; audience: StoryAudience }
+  ): Promise<boolean> {
+    if (story.audience === StoryAudience.EVERYONE) return true;
+    if (story.userId === viewerId) return true;
+
+    return CloseFriendService.isCloseFriend(story.userId, viewerId);
+  }
+
+  // Filter for stories whose audience includes the viewer. Anonymous
+  // viewers only see stories shared with everyone.
+  static storyAudienceWhere(
+    viewerId: string | null | undefined
+  ): Prisma.StoryWhereInput {
+    if (!viewerId) {
+      return { audience: StoryAudience.EVERYONE };
+    }
+
+    return {
+      OR: [
+        { audience: StoryAudience.EVERYONE },
+        { userId: viewerId },
+        { user: { closeFriends: { some: { friendId: viewerId } } } },
+      ],
+    };
+  }
+
+  // Add a user to the owner's list
+  static async add(userId: string, friendId: string) {
+    return prisma.closeFriend.upsert({
+      where: {
+        userId_friendId: { userId, friendId },
+      },
+      create: { userId, friendId },
+      update: {},
+    });
+  }
+
+  // Remove a user from the owner's list
+  static async remove(userId: string, friendId: string) {
+    await prisma.closeFriend.delete({
+      where: {
+        userId_friendId: { userId, friendId },
+      },
+    });
+  }
+}
+
+export default CloseFriendService;
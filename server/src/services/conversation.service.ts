@@ -0,0 +1,79 @@
+import { prisma } from '../config/database';
+import { socketHelpers } from '../config/socket';
+import logger from '../utils/logger';
+
+// Member fields returned with conversations
+const conversationMemberUserSelect = {
+  id: true,
+  username: true,
+  fullName: true,
+  avatar: true,
+  isVerified: true,
+} as const;
+
+export class ConversationService {
+  // Find the DIRECT conversation between two users, creating it if they
+  // have never talked before
+  static async findOrCreateDirect(userId: string, otherUserId: string) {
+    const existing = await prisma.conversation.findFirst({
+      where: {
+        type: 'DIRECT',
+        AND: [
+          { members: { some: { userId } } },
+          { members: { some: { userId: otherUserId } } },
+        ],
+      },
+    });
+
+    if (existing) {
+      return { conversation: existing, created: false };
+    }
+
+    const conversation = await prisma.conversation.create({
+      data: {
+        type: 'DIRECT',
+        members: {
+          create: [
+            { userId, role: 'MEMBER' },
+            { userId: otherUserId, role: 'MEMBER' },
+          ],
+        },
+      },
+      include: {
+        members: {
+          include: {
+            user: {
+              select: conversationMemberUserSelect,
+            },
+          },
+        },
+      },
+    });
+
+    try {
+      socketHelpers.sendToUser(otherUserId, 'new_conversation', conversation);
+    } catch (error) {
+      logger.warn('Failed to emit new_conversation:', error);
+    }
+
+    return { conversation, created: true };
+  }
+
+  // Record a conversation's latest message
+  static async touch(
+    conversationId: string,
+    messageId: string,
+    lastMessageText: string
+  ) {
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: {
+        lastMessageId: messageId,
+        lastMessageAt: new Date(),
+        lastMessageText,
+      },
+    });
+  }
+}
+
+export default ConversationService;
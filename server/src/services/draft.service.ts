@@ -0,0 +1,392 @@
+import { DraftStatus, Prisma, UploadPurpose } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ValidationError } from '../middleware/errorHandler';
+import { loggerHelpers } from '../utils/logger';
+import { HashtagService } from './hashtag.service';
+import { MentionService } from './mention.service';
+import { MediaAssetService } from './media-asset.service';
+import {
+  PostMediaService,
+  MAX_POST_MEDIA,
+  UploadedPostMedia,
+} from './post-media.service';
+import { UploadService } from './upload.service';
+
+// Furthest ahead a post can be scheduled
+export const MAX_SCHEDULE_AHEAD_DAYS = 90;
+
+// Scheduled posts published per run of the publisher
+const PUBLISH_BATCH_SIZE = 50;
+
+// Include a draft's media in order
+export const draftInclude = {
+  media: { orderBy: { order: 'asc' } },
+} satisfies Prisma.PostDraftInclude;
+
+export type DraftWithMedia = Prisma.PostDraftGetPayload<{
+  include: typeof draftInclude;
+}>;
+
+export interface DraftFields {
+  caption?: string | null;
+  location?: string | null;
+  commentsEnabled?: boolean;
+  likesEnabled?: boolean;
+}
+
+// Drafts and scheduled posts. A draft holds everything a post needs and
+// keeps its media retained; publishing moves the media over to a new post
+// and removes the draft, so the media references carry over unchanged.
+export class DraftService {
+  // A draft of the user's; other users' drafts are not found
+  static async findOwn(
+    id: string,
+    userId: string
+  ): Promise<DraftWithMedia | null> {
+    return prisma.postDraft.findFirst({
+      where: { id, userId },
+      include: draftInclude,
+    });
+  }
+
+  // Create a draft from stored files followed by chunked uploads, the way
+  // a post is created. It is scheduled if a publish time is given.
+  static async create(
+    userId: string,
+    fields: DraftFields,
+    media: UploadedPostMedia[],
+    mediaIds: string[],
+    publishAt?: Date
+  ): Promise<DraftWithMedia> {
+    if (media.length + mediaIds.length > MAX_POST_MEDIA) {
+      throw new ValidationError(
+        `A post can have at most ${MAX_POST_MEDIA} media items`
+      );
+    }
+    if (publishAt && media.length + mediaIds.length === 0) {
+      throw new ValidationError('A post needs at least one image or video');
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const uploads = await UploadService.claim(
+        tx,
+        mediaIds,
+        userId,
+        UploadPurpose.POST
+      );
+      const items = [...media, ...uploads.map(UploadService.toPostMedia)];
+      await MediaAssetService.retain(
+        items.map((item) => item.url),
+        tx
+      );
+
+      return tx.postDraft.create({
+        data: {
+          userId,
+          ...fields,
+          status: publishAt ? DraftStatus.SCHEDULED : DraftStatus.DRAFT,
+          publishAt,
+          media: {
+            create: items.map((item, order) =>
+              DraftService.mediaData(item, order)
+            ),
+          },
+        },
+        include: draftInclude,
+      });
+    });
+  }
+
+  // Append stored files and chunked uploads to a draft's media
+  static async addMedia(
+    draft: DraftWithMedia,
+    media: UploadedPostMedia[],
+    mediaIds: string[]
+  ): Promise<DraftWithMedia> {
+    if (draft.media.length + media.length + mediaIds.length > MAX_POST_MEDIA) {
+      throw new ValidationError(
+        `A post can have at most ${MAX_POST_MEDIA} media items`
+      );
+    }
+
+    const start = draft.media.length
+      ? draft.media[draft.media.length - 1].order + 1
+      : 0;
+
+    return prisma.$transaction(async (tx) => {
+      const uploads = await UploadService.claim(
+        tx,
+        mediaIds,
+        draft.userId,
+        UploadPurpose.POST
+      );
+      const items = [...media, ...uploads.map(UploadService.toPostMedia)];
+      await MediaAssetService.retain(
+        items.map((item) => item.url),
+        tx
+      );
+
+      return tx.postDraft.update({
+        where: { id: draft.id },
+        data: {
+          media: {
+            create: items.map((item, index) =>
+              DraftService.mediaData(item, start + index)
+            ),
+          },
+        },
+        include: draftInclude,
+      });
+    });
+  }
+
+  // Change a draft's fields and, given the IDs of its media to keep in
+  // order, drop the rest of its media
+  static async update(
+    draft: DraftWithMedia,
+    fields: DraftFields,
+    mediaIds?: string[]
+  ): Promise<DraftWithMedia> {
+    const removed = mediaIds
+      ? draft.media.filter((media) => !mediaIds.includes(media.id))
+      : [];
+
+    if (mediaIds) {
+      const known = draft.media.map((media) => media.id);
+
+      if (
+        new Set(mediaIds).size !== mediaIds.length ||
+        mediaIds.some((id) => !known.includes(id))
+      ) {
+        throw new ValidationError('Media must be listed once each');
+      }
+      if (mediaIds.length === 0 && draft.status === DraftStatus.SCHEDULED) {
+        throw new ValidationError('A post needs at least one image or video');
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (mediaIds) {
+        await tx.postDraftMedia.deleteMany({
+          where: { id: { in: removed.map((media) => media.id) } },
+        });
+
+        for (const [order, id] of mediaIds.entries()) {
+          await tx.postDraftMedia.update({ where: { id }, data: { order } });
+        }
+      }
+
+      return tx.postDraft.update({
+        where: { id: draft.id },
+        data: fields,
+        include: draftInclude,
+      });
+    });
+
+    await MediaAssetService.release(removed.map((media) => media.url));
+
+    return updated;
+  }
+
+  // Schedule a draft, or move a scheduled post to another time
+  static async schedule(
+    draft: DraftWithMedia,
+    publishAt: Date
+  ): Promise<DraftWithMedia> {
+    if (draft.media.length === 0) {
+      throw new ValidationError('A post needs at least one image or video');
+    }
+
+    return prisma.postDraft.update({
+      where: { id: draft.id },
+      data: { status: DraftStatus.SCHEDULED, publishAt, publishError: null },
+      include: draftInclude,
+    });
+  }
+
+  // Stop a scheduled post from being published, keeping it as a draft
+  static async unschedule(draft: DraftWithMedia): Promise<DraftWithMedia> {
+    return prisma.postDraft.update({
+      where: { id: draft.id },
+      data: { status: DraftStatus.DRAFT, publishAt: null },
+      include: draftInclude,
+    });
+  }
+
+  // Delete a draft, deleting media nothing else uses
+  static async remove(draft: DraftWithMedia): Promise<void> {
+    await prisma.postDraft.delete({ where: { id: draft.id } });
+    await MediaAssetService.release(draft.media.map((media) => media.url));
+  }
+
+  // Turn a draft into a post, as if it was created now: the author's post
+  // count, hashtags and mentions are updated as they are for a new post.
+  // Returns null if the draft changed or went away meanwhile.
+  static async publish(draft: DraftWithMedia) {
+    if (draft.media.length === 0) {
+      throw new ValidationError('A post needs at least one image or video');
+    }
+
+    const post = await prisma.$transaction(async (tx) => {
+      // Taking the draft as it was read keeps edits made meanwhile from
+      // being lost, and a post from being published twice
+      const { count } = await tx.postDraft.deleteMany({
+        where: { id: draft.id, updatedAt: draft.updatedAt },
+      });
+      if (count === 0) return null;
+
+      const created = await tx.post.create({
+        data: {
+          userId: draft.userId,
+          caption: draft.caption,
+          location: draft.location,
+          commentsEnabled: draft.commentsEnabled,
+          likesEnabled: draft.likesEnabled,
+          media: {
+            create: draft.media.map((media, order) => ({
+              url: media.url,
+              type: media.type,
+              width: media.width,
+              height: media.height,
+              duration: media.duration,
+              posterUrl: media.posterUrl,
+              variants: media.variants ?? undefined,
+              placeholder: media.placeholder,
+              order,
+            })),
+          },
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              fullName: true,
+              avatar: true,
+              isVerified: true,
+            },
+          },
+          media: {
+            orderBy: { order: 'asc' },
+          },
+        },
+      });
+
+      await tx.user.update({
+        where: { id: draft.userId },
+        data: { postsCount: { increment: 1 } },
+      });
+
+      return created;
+    });
+
+    if (!post) return null;
+
+    await HashtagService.syncPostHashtags(post.id, post.caption);
+    const mentions = await MentionService.syncPostMentions(
+      post.id,
+      post.caption,
+      post.user
+    );
+
+    loggerHelpers.logAuth('post_published', draft.userId, {
+      postId: post.id,
+      draftId: draft.id,
+    });
+
+    return { ...post, mentions };
+  }
+
+  // Publish scheduled posts whose time has come. Returns how many were
+  // published; one that fails goes back to being a draft with the error,
+  // rather than being retried every run, until it is scheduled again.
+  static async publishDue(): Promise<number> {
+    const drafts = await prisma.postDraft.findMany({
+      where: {
+        status: DraftStatus.SCHEDULED,
+        publishAt: { lte: new Date() },
+      },
+      include: draftInclude,
+      orderBy: { publishAt: 'asc' },
+      take: PUBLISH_BATCH_SIZE,
+    });
+    let published = 0;
+
+    for (const draft of drafts) {
+      try {
+        if (await DraftService.publish(draft)) published++;
+      } catch (error) {
+        loggerHelpers.logError(error as Error, {
+          action: 'publish_scheduled_post',
+          draftId: draft.id,
+        });
+        await DraftService.failPublish(draft, error as Error);
+      }
+    }
+
+    return published;
+  }
+
+  // Unschedule a draft that could not be published, unless it was edited
+  // meanwhile, keeping the reason for its owner to see
+  private static async failPublish(
+    draft: DraftWithMedia,
+    error: Error
+  ): Promise<void> {
+    try {
+      await prisma.postDraft.updateMany({
+        where: {
+          id: draft.id,
+          status: DraftStatus.SCHEDULED,
+          updatedAt: draft.updatedAt,
+        },
+        data: {
+          status: DraftStatus.DRAFT,
+          publishAt: null,
+          publishError: error.message || 'Publishing failed',
+        },
+      });
+    } catch (updateError) {
+      loggerHelpers.logError(updateError as Error, {
+        action: 'unschedule_failed_post',
+        draftId: draft.id,
+      });
+    }
+  }
+
+  // A publish time from a request: in the future, and not too far
+  static parsePublishAt(value: string): Date {
+    const publishAt = new Date(value);
+    const latest = Date.now() + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000;
+
+    if (Number.isNaN(publishAt.getTime())) {
+      throw new ValidationError('Publish time must be a date');
+    }
+    if (publishAt.getTime() <= Date.now()) {
+      throw new ValidationError('Publish time must be in the future');
+    }
+    if (publishAt.getTime() > latest) {
+      throw new ValidationError(
+        `Posts can be scheduled at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`
+      );
+    }
+
+    return publishAt;
+  }
+
+  private static mediaData(item: UploadedPostMedia, order: number) {
+    return {
+      url: item.url,
+      type: item.type,
+      width: item.width,
+      height: item.height,
+      duration: item.duration,
+      posterUrl: item.posterUrl,
+      variants: PostMediaService.toJson(item.variants),
+      placeholder: item.placeholder,
+      order,
+    };
+  }
+}
+
+export default DraftService;
@@ -0,0 +1,223 @@
+import { prisma } from '../config/database';
+import { socketHelpers } from '../config/socket';
+import logger from '../utils/logger';
+import { NotificationService } from './notification.service';
+
+// User fields returned with follow requests
+export const followRequestUserSelect = {
+  id: true,
+  username: true,
+  fullName: true,
+  avatar: true,
+  isVerified: true,
+} as const;
+
+interface FollowActor {
+  id: string;
+  username: string;
+}
+
+export class FollowService {
+  // Emit a follow event to a user. Events are only sent after the
+  // database change they describe has been committed.
+  private static emit(userId: string, event: string, data: object) {
+    try {
+      socketHelpers.sendToUser(userId, event, {
+        ...data,
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      logger.warn(`Failed to emit ${event}:`, error);
+    }
+  }
+
+  // Create the follow relationship and update both counters
+  static async follow(follower: FollowActor, followingId: string) {
+    await prisma.$transaction([
+      prisma.follow.create({
+        data: {
+          followerId: follower.id,
+          followingId,
+        },
+      }),
+      prisma.user.update({
+        where: { id: follower.id },
+        data: { followingCount: { increment: 1 } },
+      }),
+      prisma.user.update({
+        where: { id: followingId },
+        data: { followersCount: { increment: 1 } },
+      }),
+    ]);
+
+    FollowService.emit(followingId, 'follow:followed', {
+      followerId: follower.id,
+    });
+
+    await FollowService.checkMutualFollow(follower.id, followingId);
+
+    await NotificationService.create({
+      senderId: follower.id,
+      receiverId: followingId,
+      type: 'FOLLOW',
+      title: 'New follower',
+      content: `${follower.username} started following you`,
+      data: { userId: follower.id },
+    });
+  }
+
+  // Remove the follow relationship and update both counters
+  static async unfollow(followerId: string, followingId: string) {
+    await prisma.$transaction([
+      prisma.follow.delete({
+        where: {
+          followerId_followingId: {
+            followerId,
+            followingId,
+          },
+        },
+      }),
+      prisma.user.update({
+        where: { id: followerId },
+        data: { followingCount: { decrement: 1 } },
+      }),
+      prisma.user.update({
+        where: { id: followingId },
+        data: { followersCount: { decrement: 1 } },
+      }),
+    ]);
+
+    FollowService.emit(followingId, 'follow:unfollowed', {
+      unfollowerId: followerId,
+    });
+  }
+
+  // Ask to follow a private account
+  static async createRequest(requester: FollowActor, targetId: string) {
+    const followRequest = await prisma.followRequest.create({
+      data: {
+        requesterId: requester.id,
+        targetId,
+      },
+      include: {
+        requester: {
+          select: followRequestUserSelect,
+        },
+      },
+    });
+
+    FollowService.emit(targetId, 'follow:request_received', {
+      requestId: followRequest.id,
+      requesterId: requester.id,
+      requester: followRequest.requester,
+    });
+
+    await NotificationService.create({
+      senderId: requester.id,
+      receiverId: targetId,
+      type: 'FOLLOW',
+      title: 'New follow request',
+      content: `${requester.username} requested to follow you`,
+      data: { userId: requester.id, requestId: followRequest.id },
+    });
+
+    return followRequest;
+  }
+
+  // Withdraw a pending request
+  static async cancelRequest(requestId: string) {
+    const followRequest = await prisma.followRequest.delete({
+      where: { id: requestId },
+    });
+
+    FollowService.emit(followRequest.targetId, 'follow:request_cancelled', {
+      requestId,
+      requesterId: followRequest.requesterId,
+    });
+  }
+
+  // Turn a pending request into a follow. If the requester already
+  // follows, e.g. after the account went public meanwhile, the request is
+  // only removed.
+  static async acceptRequest(requestId: string, target: FollowActor) {
+    const followRequest = await prisma.followRequest.findUniqueOrThrow({
+      where: { id: requestId },
+    });
+    const { requesterId } = followRequest;
+
+    const followed = await prisma.$transaction(async (tx) => {
+      await tx.followRequest.delete({
+        where: { id: requestId },
+      });
+
+      const { count } = await tx.follow.createMany({
+        data: {
+          followerId: requesterId,
+          followingId: target.id,
+        },
+        skipDuplicates: true,
+      });
+      if (count === 0) return false;
+
+      await tx.user.update({
+        where: { id: requesterId },
+        data: { followingCount: { increment: 1 } },
+      });
+      await tx.user.update({
+        where: { id: target.id },
+        data: { followersCount: { increment: 1 } },
+      });
+
+      return true;
+    });
+
+    FollowService.emit(requesterId, 'follow:request_accepted', {
+      requestId,
+      targetId: target.id,
+    });
+
+    if (!followed) return;
+
+    await FollowService.checkMutualFollow(requesterId, target.id);
+
+    await NotificationService.create({
+      senderId: target.id,
+      receiverId: requesterId,
+      type: 'FOLLOW',
+      title: 'Follow request accepted',
+      content: `${target.username} accepted your follow request`,
+      data: { userId: target.id },
+    });
+  }
+
+  // Drop a pending request without following
+  static async declineRequest(requestId: string) {
+    const followRequest = await prisma.followRequest.delete({
+      where: { id: requestId },
+    });
+
+    FollowService.emit(followRequest.requesterId, 'follow:request_declined', {
+      requestId,
+      targetId: followRequest.targetId,
+    });
+  }
+
+  // Tell both users when they now follow each other
+  private static async checkMutualFollow(userId1: string, userId2: string) {
+    const reverse = await prisma.follow.findUnique({
+      where: {
+        followerId_followingId: {
+          followerId: userId2,
+          followingId: userId1,
+        },
+      },
+    });
+
+    if (!reverse) return;
+
+    FollowService.emit(userId1, 'follow:mutual_follow', { userId: userId2 });
+    FollowService.emit(userId2, 'follow:mutual_follow', { userId: userId1 });
+  }
+}
+
+export default FollowService;
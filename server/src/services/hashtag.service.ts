@@ -0,0 +1,257 @@
+import { TrendWindow } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ArrayUtils, StringUtils } from '../utils/helpers';
+import { loggerHelpers } from '../utils/logger';
+
+// Longest hashtag name that gets indexed
+const MAX_HASHTAG_LENGTH = 50;
+
+// Trending windows exposed through the API
+export const TREND_WINDOWS = {
+  '1h': { window: TrendWindow.HOUR, durationMs: 60 * 60 * 1000 },
+  '24h': { window: TrendWindow.DAY, durationMs: 24 * 60 * 60 * 1000 },
+  '7d': { window: TrendWindow.WEEK, durationMs: 7 * 24 * 60 * 60 * 1000 },
+} as const;
+
+export type TrendWindowKey = keyof typeof TREND_WINDOWS;
+
+export class HashtagService {
+  // Parse unique, normalized hashtag names from a caption
+  static parseCaption(caption?: string | null): string[] {
+    if (!caption) return [];
+
+    return ArrayUtils.unique(StringUtils.extractHashtags(caption)).filter(
+      (name) => name.length > 0 && name.length <= MAX_HASHTAG_LENGTH
+    );
+  }
+
+  // Make a post's PostHashtag links match the hashtags in its caption.
+  // Hashtag.postsCount only counts posts that are not archived. Links
+  // are dated when the post was created, so tagging an old post does not
+  // make it trend.
+  static async syncPostHashtags(
+    postId: string,
+    caption?: string | null
+  ): Promise<{ added: string[]; removed: string[] }> {
+    const names = HashtagService.parseCaption(caption);
+
+    return prisma.$transaction(async (tx) => {
+      const post = await tx.post.findUnique({
+        where: { id: postId },
+        select: {
+          isArchived: true,
+          createdAt: true,
+          hashtags: {
+            select: {
+              hashtagId: true,
+              hashtag: { select: { name: true } },
+            },
+          },
+        },
+      });
+
+      if (!post) {
+        return { added: [], removed: [] };
+      }
+
+      const current = new Map(
+        post.hashtags.map((ph) => [ph.hashtag.name, ph.hashtagId])
+      );
+      const added = names.filter((name) => !current.has(name));
+      const removed = [...current.keys()].filter(
+        (name) => !names.includes(name)
+      );
+      const countDelta = post.isArchived ? 0 : 1;
+
+      for (const name of added) {
+        const hashtag = await tx.hashtag.upsert({
+          where: { name },
+          create: { name, postsCount: countDelta },
+          update: { postsCount: { increment: countDelta } },
+        });
+
+        await tx.postHashtag.create({
+          data: { postId, hashtagId: hashtag.id, createdAt: post.createdAt },
+        });
+      }
+
+      if (removed.length > 0) {
+        const removedIds = removed.map((name) => current.get(name)!);
+
+        await tx.postHashtag.deleteMany({
+          where: { postId, hashtagId: { in: removedIds } },
+        });
+
+        if (countDelta) {
+          await tx.hashtag.updateMany({
+            where: { id: { in: removedIds } },
+            data: { postsCount: { decrement: countDelta } },
+          });
+        }
+      }
+
+      return { added, removed };
+    });
+  }
+
+  // Adjust counts of a post's hashtags when it enters (unarchive) or
+  // leaves (archive, delete) the public index
+  static async adjustPostsCount(postId: string, delta: 1 | -1) {
+    await prisma.hashtag.updateMany({
+      where: { posts: { some: { postId } } },
+      data: { postsCount: { increment: delta } },
+    });
+  }
+
+  // Rebuild the whole index from existing post captions, dating every
+  // link when its post was created
+  static async rebuildIndex(
+    batchSize: number = 500
+  ): Promise<{ posts: number; hashtags: number }> {
+    let processed = 0;
+    let cursor: string | undefined;
+
+    for (;;) {
+      const posts = await prisma.post.findMany({
+        select: { id: true, caption: true, createdAt: true },
+        orderBy: { id: 'asc' },
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        take: batchSize,
+      });
+
+      if (posts.length === 0) break;
+
+      for (const post of posts) {
+        await HashtagService.syncPostHashtags(post.id, post.caption);
+        await prisma.postHashtag.updateMany({
+          where: { postId: post.id, createdAt: { not: post.createdAt } },
+          data: { createdAt: post.createdAt },
+        });
+      }
+
+      processed += posts.length;
+      cursor = posts[posts.length - 1].id;
+      loggerHelpers.logDB('rebuild_index', 'post_hashtags', undefined, {
+        processed,
+      });
+    }
+
+    // Recompute every count from scratch so earlier drift is corrected
+    const counts = await prisma.postHashtag.groupBy({
+      by: ['hashtagId'],
+      where: { post: { isArchived: false } },
+      _count: { _all: true },
+    });
+
+    await prisma.hashtag.updateMany({ data: { postsCount: 0 } });
+    for (const count of counts) {
+      await prisma.hashtag.update({
+        where: { id: count.hashtagId },
+        data: { postsCount: count._count._all },
+      });
+    }
+
+    return { posts: processed, hashtags: counts.length };
+  }
+
+  // Compute trending scores for one window and replace the stored ones.
+  // Each tagging inside the window scores 1 + log(1 + engagement), where
+  // engagement counts likes and comments (x2) received inside the window,
+  // and decays with a half-life of a quarter of the window so fresh
+  // spikes outrank older activity.
+  static async computeTrendingScores(
+    key: TrendWindowKey,
+    now: Date = new Date()
+  ): Promise<number> {
+    const { window, durationMs } = TREND_WINDOWS[key];
+    const since = new Date(now.getTime() - durationMs);
+    const halfLifeMs = durationMs / 4;
+
+    const links = await prisma.postHashtag.findMany({
+      where: {
+        createdAt: { gte: since },
+        post: { isArchived: false },
+      },
+      select: {
+        postId: true,
+        hashtagId: true,
+        createdAt: true,
+      },
+    });
+
+    const postIds = ArrayUtils.unique(links.map((link) => link.postId));
+
+    const [likes, comments] = await Promise.all([
+      prisma.like.groupBy({
+        by: ['postId'],
+        where: { postId: { in: postIds }, createdAt: { gte: since } },
+        _count: { _all: true },
+      }),
+      prisma.comment.groupBy({
+        by: ['postId'],
+        where: { postId: { in: postIds }, createdAt: { gte: since } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const engagement = new Map<string, number>();
+    likes.forEach((like) => {
+      engagement.set(like.postId, like._count._all);
+    });
+    comments.forEach((comment) => {
+      engagement.set(
+        comment.postId,
+        (engagement.get(comment.postId) || 0) + 2 * comment._count._all
+      );
+    });
+
+    const scores = new Map<string, { score: number; postsCount: number }>();
+    for (const link of links) {
+      const ageMs = Math.max(0, now.getTime() - link.createdAt.getTime());
+      const decay = Math.pow(0.5, ageMs / halfLifeMs);
+      const weight = 1 + Math.log1p(engagement.get(link.postId) || 0);
+      const current = scores.get(link.hashtagId) || {
+        score: 0,
+        postsCount: 0,
+      };
+
+      scores.set(link.hashtagId, {
+        score: current.score + decay * weight,
+        postsCount: current.postsCount + 1,
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.hashtagTrend.deleteMany({ where: { window } }),
+      prisma.hashtagTrend.createMany({
+        data: [...scores.entries()].map(([hashtagId, value]) => ({
+          hashtagId,
+          window,
+          score: value.score,
+          postsCount: value.postsCount,
+          computedAt: now,
+        })),
+      }),
+    ]);
+
+    return scores.size;
+  }
+
+  // Recompute trending scores for every window
+  static async refreshTrendingScores(): Promise<void> {
+    const now = new Date();
+
+    for (const key of Object.keys(TREND_WINDOWS) as TrendWindowKey[]) {
+      const startedAt = Date.now();
+      const hashtags = await HashtagService.computeTrendingScores(key, now);
+
+      loggerHelpers.logPerformance(
+        `trending_hashtags_${key}`,
+        Date.now() - startedAt,
+        { hashtags }
+      );
+    }
+  }
+}
+
+export default HashtagService;
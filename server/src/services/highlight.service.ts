@@ -0,0 +1,83 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { CloseFriendService } from './close-friend.service';
+
+// Most stories a single highlight can hold
+export const MAX_HIGHLIGHT_STORIES = 100;
+
+// Story fields served through highlights, including expired stories
+export const highlightStorySelect = {
+  id: true,
+  mediaUrl: true,
+  mediaType: true,
+  text: true,
+  audience: true,
+  expiresAt: true,
+  createdAt: true,
+} as const;
+
+// Include a highlight's stories in order, limited to the ones whose
+// audience includes the viewer
+export const highlightStoriesInclude = (viewerId: string | null | undefined) =>
+  ({
+    stories: {
+      where: { story: CloseFriendService.storyAudienceWhere(viewerId) },
+      orderBy: { position: 'asc' },
+      include: {
+        story: { select: highlightStorySelect },
+      },
+    },
+  }) satisfies Prisma.HighlightInclude;
+
+type HighlightWithStories = Prisma.HighlightGetPayload<{
+  include: ReturnType<typeof highlightStoriesInclude>;
+}>;
+
+export class HighlightService {
+  // IDs from the list that are not stories of the given owner
+  static async findForeignStoryIds(
+    ownerId: string,
+    storyIds: string[]
+  ): Promise<string[]> {
+    const stories = await prisma.story.findMany({
+      where: { id: { in: storyIds }, userId: ownerId },
+      select: { id: true },
+    });
+    const ownIds = stories.map((story) => story.id);
+
+    return storyIds.filter((storyId) => !ownIds.includes(storyId));
+  }
+
+  // Replace a highlight's stories with the given ordered list
+  static async setStories(highlightId: string, storyIds: string[]) {
+    await prisma.$transaction([
+      prisma.highlightStory.deleteMany({ where: { highlightId } }),
+      prisma.highlightStory.createMany({
+        data: storyIds.map((storyId, position) => ({
+          highlightId,
+          storyId,
+          position,
+        })),
+      }),
+    ]);
+  }
+
+  // Flatten ordered story links and resolve the cover, which falls back
+  // to the first visible story's media
+  static format(highlight: HighlightWithStories) {
+    const { stories, ...rest } = highlight;
+    const items = stories.map((item) => ({
+      ...item.story,
+      position: item.position,
+    }));
+
+    return {
+      ...rest,
+      cover: highlight.coverUrl || items[0]?.mediaUrl || null,
+      storiesCount: items.length,
+      stories: items,
+    };
+  }
+}
+
+export default HighlightService;
@@ -0,0 +1,158 @@
+import sharp from 'sharp';
+import type { ImageFormat } from '../types/storage';
+
+// Widths images are rendered at, for clients to pick the best fit from
+export const IMAGE_VARIANT_WIDTHS = [320, 640, 1080];
+
+// Width of the blurred placeholder
+const PLACEHOLDER_WIDTH = 16;
+
+export const IMAGE_CONTENT_TYPES: Record<ImageFormat, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+// Encoder settings per output format
+const ENCODER_OPTIONS: Record<ImageFormat, Record<string, unknown>> = {
+  jpeg: { quality: 80, mozjpeg: true },
+  png: { compressionLevel: 9 },
+  gif: {},
+  webp: { quality: 75 },
+  avif: { quality: 50, effort: 2 },
+};
+
+// An encoded image
+export interface RenderedImage {
+  data: Buffer;
+  width: number;
+  height: number;
+  format: ImageFormat;
+}
+
+export interface ProcessedImage {
+  placeholder: string;
+  // Each variant width in the uploaded format and in modern formats,
+  // smallest first
+  renditions: RenderedImage[];
+}
+
+// Image transforms with sharp. Output never carries the source's
+// metadata: sharp drops EXIF (including GPS location), XMP and IPTC
+// unless asked to keep them, and images are rotated upright first so
+// dropping the orientation tag does not turn them.
+export class ImageProcessingService {
+  static formatOf(contentType: string): ImageFormat | null {
+    const entry = Object.entries(IMAGE_CONTENT_TYPES).find(
+      ([, type]) => type === contentType
+    );
+
+    return entry ? (entry[0] as ImageFormat) : null;
+  }
+
+  // Re-encode an image upright and without metadata, keeping its format.
+  // Content sharp does not handle is returned as is.
+  static async strip(data: Buffer, contentType: string): Promise<Buffer> {
+    const format = ImageProcessingService.formatOf(contentType);
+    if (!format) return data;
+
+    return ImageProcessingService.load(data, format)
+      .toFormat(format, ENCODER_OPTIONS[format])
+      .toBuffer();
+  }
+
+  // Render an image at every variant width up to `maxWidth`, in its own
+  // format plus WebP and AVIF. Animated GIFs keep their frames, so they
+  // are rendered as GIF and WebP only.
+  static async process(
+    data: Buffer,
+    contentType: string,
+    maxWidth = IMAGE_VARIANT_WIDTHS[IMAGE_VARIANT_WIDTHS.length - 1]
+  ): Promise<ProcessedImage> {
+    const format = ImageProcessingService.formatOf(contentType);
+    if (!format) {
+      throw new Error(`Unsupported image type: ${contentType}`);
+    }
+
+    // Orientations 5-8 are turned a quarter, swapping width and height
+    const metadata = await sharp(data).metadata();
+    const width =
+      (metadata.orientation ?? 1) >= 5 ? metadata.height : metadata.width;
+
+    const formats: ImageFormat[] =
+      format === 'gif' ? ['gif', 'webp'] : [format, 'webp', 'avif'];
+    const renditions: RenderedImage[] = [];
+
+    for (const variantWidth of ImageProcessingService.variantWidths(
+      width,
+      maxWidth
+    )) {
+      for (const variantFormat of formats) {
+        renditions.push(
+          await ImageProcessingService.render(
+            data,
+            format,
+            variantWidth,
+            variantFormat
+          )
+        );
+      }
+    }
+
+    return {
+      placeholder: await ImageProcessingService.placeholder(data),
+      renditions,
+    };
+  }
+
+  // Variant widths for an image, never wider than the image itself
+  static variantWidths(width: number, maxWidth: number): number[] {
+    const largest = Math.min(width, maxWidth);
+    const widths = IMAGE_VARIANT_WIDTHS.filter((w) => w < largest);
+
+    return [...widths, largest];
+  }
+
+  private static async render(
+    data: Buffer,
+    sourceFormat: ImageFormat,
+    width: number,
+    format: ImageFormat
+  ): Promise<RenderedImage> {
+    const { data: output, info } = await ImageProcessingService.load(
+      data,
+      sourceFormat
+    )
+      .resize({ width, withoutEnlargement: true })
+      .toFormat(format, ENCODER_OPTIONS[format])
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      data: output,
+      width: info.width,
+      height: info.pageHeight ?? info.height,
+      format,
+    };
+  }
+
+  private static async placeholder(data: Buffer): Promise<string> {
+    const output = await sharp(data, { animated: false })
+      .rotate()
+      .resize({ width: PLACEHOLDER_WIDTH })
+      .blur(1)
+      .webp({ quality: 40 })
+      .toBuffer();
+
+    return `data:image/webp;base64,${output.toString('base64')}`;
+  }
+
+  private static load(data: Buffer, format: ImageFormat) {
+    return sharp(data, {
+      animated: format === 'gif' || format === 'webp',
+    }).rotate();
+  }
+}
+
+export default ImageProcessingService;
@@ -0,0 +1,317 @@
+import crypto from 'crypto';
+import { MediaAsset, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import logger from '../utils/logger';
+import { StorageService } from './storage';
+import type {
+  ImageVariant,
+  StoreOptions,
+  StoredFile,
+  StoredImage,
+  StoredResourceType,
+} from '../types/storage';
+
+type MediaUrls = (string | null | undefined)[];
+
+// Stored media, and whether this call stored it. Media reused from an
+// earlier store may already be in use elsewhere.
+export type StoredAsset<T> = T & { created: boolean };
+
+// Stored media shared by content. Content stored again the same way (same
+// folder and transforms) gets the existing file back instead of a copy.
+// Everything that keeps a media URL - post media, stories, messages and
+// avatars - retains it, and releases it once it no longer does; the file
+// is deleted along with its last reference. Unclaimed uploads hold on to
+// their media as well, until they are claimed or expire.
+export class MediaAssetService {
+  // Store a file as a single object, reusing an identical one
+  static async store(
+    data: Buffer,
+    options: StoreOptions
+  ): Promise<StoredAsset<StoredFile>> {
+    const hash = MediaAssetService.hash(data);
+    const profile = MediaAssetService.profile('file', options);
+
+    const existing = await MediaAssetService.find(hash, profile);
+    if (existing) {
+      return { ...MediaAssetService.toStoredFile(existing), created: false };
+    }
+
+    const stored = await StorageService.store(data, options);
+    const asset = await MediaAssetService.record(hash, profile, stored);
+
+    return {
+      ...MediaAssetService.toStoredFile(asset),
+      created: asset.url === stored.url,
+    };
+  }
+
+  // Store an image as variants, reusing an identical set
+  static async storeImage(
+    data: Buffer,
+    options: StoreOptions
+  ): Promise<StoredAsset<StoredImage>> {
+    const hash = MediaAssetService.hash(data);
+    const profile = MediaAssetService.profile('image', options);
+
+    const existing = await MediaAssetService.find(hash, profile);
+    if (existing) {
+      return { ...MediaAssetService.toStoredImage(existing), created: false };
+    }
+
+    const image = await StorageService.storeImage(data, options);
+    const asset = await MediaAssetService.record(hash, profile, {
+      ...image,
+      resourceType: 'image',
+      duration: null,
+    });
+
+    return {
+      ...MediaAssetService.toStoredImage(asset),
+      created: asset.url === image.url,
+    };
+  }
+
+  // Count new references to media. Run it in the transaction that stores
+  // the references. URLs that are not tracked, such as external ones,
+  // are ignored.
+  static async retain(
+    urls: MediaUrls,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    for (const [url, count] of MediaAssetService.count(urls)) {
+      await client.mediaAsset.updateMany({
+        where: { url },
+        data: { refCount: { increment: count } },
+      });
+    }
+  }
+
+  // Drop references to media, deleting files nothing refers to anymore.
+  // Files without an asset, such as those stored before references were
+  // counted or URLs a client made up, are left to the orphaned media job:
+  // nothing says who they belong to.
+  static async release(urls: MediaUrls): Promise<void> {
+    for (const [url, count] of MediaAssetService.count(urls)) {
+      try {
+        const asset = await prisma.mediaAsset.findUnique({ where: { url } });
+        if (!asset) continue;
+
+        await prisma.mediaAsset.update({
+          where: { id: asset.id },
+          data: { refCount: { decrement: count } },
+        });
+        await MediaAssetService.collect(asset.id);
+      } catch (error) {
+        logger.error(`Failed to release media ${url}:`, error);
+      }
+    }
+  }
+
+  // Delete media this request stored that ended up unused, unless
+  // something already refers to the same content. Only pass media the
+  // request created itself: reused media may be about to be retained.
+  static async discard(urls: MediaUrls): Promise<void> {
+    for (const [url] of MediaAssetService.count(urls)) {
+      try {
+        const asset = await prisma.mediaAsset.findUnique({
+          where: { url },
+          select: { id: true },
+        });
+
+        if (asset) await MediaAssetService.collect(asset.id);
+      } catch (error) {
+        logger.error(`Failed to discard media ${url}:`, error);
+      }
+    }
+  }
+
+  // Media URLs kept by a user's posts, drafts, stories and sent messages
+  // and by their avatar, which go away with the account
+  static async referencedBy(userId: string): Promise<string[]> {
+    const [user, postMedia, draftMedia, stories, messages] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { avatar: true },
+      }),
+      prisma.postMedia.findMany({
+        where: { post: { userId } },
+        select: { url: true },
+      }),
+      prisma.postDraftMedia.findMany({
+        where: { draft: { userId } },
+        select: { url: true },
+      }),
+      prisma.story.findMany({
+        where: { userId },
+        select: { mediaUrl: true },
+      }),
+      prisma.message.findMany({
+        where: { senderId: userId, mediaUrl: { not: null } },
+        select: { mediaUrl: true },
+      }),
+    ]);
+
+    return [
+      user?.avatar,
+      ...postMedia.map((media) => media.url),
+      ...draftMedia.map((media) => media.url),
+      ...stories.map((story) => story.mediaUrl),
+      ...messages.map((message) => message.mediaUrl),
+    ].filter((url): url is string => Boolean(url));
+  }
+
+  // Delete an asset and its files if nothing refers to it. Uploads not
+  // yet claimed or expired count, as do highlight and collection covers
+  // and group avatars, which point at media without retaining it; once
+  // those move on, the orphaned media job collects the file.
+  // Returns whether the asset is gone.
+  static async collect(id: string): Promise<boolean> {
+    const asset = await prisma.mediaAsset.findUnique({ where: { id } });
+    if (!asset) return true;
+    if (asset.refCount > 0) return false;
+    if (await MediaAssetService.isPointedAt(asset.url)) return false;
+
+    // Only delete the files if a new reference did not come in meanwhile
+    const { count } = await prisma.mediaAsset.deleteMany({
+      where: { id, refCount: { lte: 0 } },
+    });
+    if (count === 0) return false;
+
+    return MediaAssetService.deleteFiles(asset);
+  }
+
+  // Whether a pending upload, a cover or a group avatar uses the URL
+  private static async isPointedAt(url: string): Promise<boolean> {
+    const counts = await Promise.all([
+      prisma.upload.count({
+        where: { url, claimedAt: null, expiresAt: { gt: new Date() } },
+      }),
+      prisma.highlight.count({ where: { coverUrl: url } }),
+      prisma.collection.count({ where: { coverUrl: url } }),
+      prisma.conversation.count({ where: { avatar: url } }),
+    ]);
+
+    return counts.some((count) => count > 0);
+  }
+
+  // Keep the first asset stored for some content. If the same content
+  // was stored concurrently, this copy is dropped in favour of that one.
+  private static async record(
+    hash: string,
+    profile: string,
+    stored: StoredFile & Partial<Pick<StoredImage, 'variants' | 'placeholder'>>
+  ): Promise<MediaAsset> {
+    try {
+      return await prisma.mediaAsset.create({
+        data: {
+          hash,
+          profile,
+          url: stored.url,
+          key: stored.key,
+          resourceType: stored.resourceType,
+          width: stored.width,
+          height: stored.height,
+          duration: stored.duration,
+          bytes: stored.bytes,
+          variants: stored.variants?.map(({ url, width, height, format }) => ({
+            url,
+            width,
+            height,
+            format,
+          })),
+          placeholder: stored.placeholder,
+        },
+      });
+    } catch (error) {
+      await MediaAssetService.deleteFiles(stored);
+
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return prisma.mediaAsset.findUniqueOrThrow({
+          where: { hash_profile: { hash, profile } },
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  private static async find(
+    hash: string,
+    profile: string
+  ): Promise<MediaAsset | null> {
+    return prisma.mediaAsset.findUnique({
+      where: { hash_profile: { hash, profile } },
+    });
+  }
+
+  // The file itself and, for images stored as variants, each variant
+  private static async deleteFiles(media: {
+    url: string;
+    variants?: Prisma.JsonValue | ImageVariant[] | null;
+  }): Promise<boolean> {
+    const variants = Array.isArray(media.variants)
+      ? (media.variants as unknown as ImageVariant[])
+      : [];
+    let removed = true;
+
+    for (const url of new Set([media.url, ...variants.map((v) => v.url)])) {
+      removed = (await StorageService.delete(url)) && removed;
+    }
+
+    return removed;
+  }
+
+  private static toStoredFile(asset: MediaAsset): StoredFile {
+    return {
+      key: asset.key,
+      url: asset.url,
+      resourceType: asset.resourceType as StoredResourceType,
+      width: asset.width,
+      height: asset.height,
+      duration: asset.duration,
+      bytes: asset.bytes,
+    };
+  }
+
+  private static toStoredImage(asset: MediaAsset): StoredImage {
+    return {
+      key: asset.key,
+      url: asset.url,
+      width: asset.width ?? 0,
+      height: asset.height ?? 0,
+      placeholder: asset.placeholder ?? '',
+      variants: (asset.variants as unknown as ImageVariant[] | null) ?? [],
+      bytes: asset.bytes,
+    };
+  }
+
+  // Content stored with different options is a different file
+  private static profile(kind: 'file' | 'image', options: StoreOptions) {
+    return [
+      kind,
+      options.folder,
+      JSON.stringify(options.transform ?? null),
+    ].join(':');
+  }
+
+  private static hash(data: Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+
+  // How many times each URL occurs
+  private static count(urls: MediaUrls): Map<string, number> {
+    const counts = new Map<string, number>();
+
+    for (const url of urls) {
+      if (url) counts.set(url, (counts.get(url) ?? 0) + 1);
+    }
+
+    return counts;
+  }
+}
+
+export default MediaAssetService;
@@ -0,0 +1,276 @@
+import { Prisma, UploadStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { loggerHelpers } from '../utils/logger';
+import { StorageService } from './storage';
+import { UploadService } from './upload.service';
+import type { ImageVariant } from '../types/storage';
+
+// Rows read at a time while gathering references
+const SCAN_BATCH_SIZE = 1000;
+
+export interface MediaGcOptions {
+  // Report orphans without deleting anything
+  dryRun: boolean;
+  // Files stored more recently than this are left alone, since what will
+  // refer to them may not be saved yet
+  gracePeriodMs: number;
+}
+
+export interface MediaOrphan {
+  url: string;
+  bytes: number;
+  createdAt: Date;
+}
+
+export interface MediaGcReport {
+  dryRun: boolean;
+  scanned: number;
+  orphans: MediaOrphan[];
+  orphanBytes: number;
+  deleted: number;
+  // Orphans that could not be deleted, or were taken up again meanwhile
+  failed: number;
+  expiredUploads: number;
+  // Drivers whose files could not be listed
+  unreachable: string[];
+}
+
+// Reconciles stored files with the media the database refers to. Files
+// no post, draft, story, message, avatar, cover or pending upload refers to are
+// orphans: left behind by deletes that did not release their media, or
+// by stores that failed halfway. Orphans older than the grace period are
+// deleted, along with any media asset recorded for them.
+export class MediaGcService {
+  static async run(options: MediaGcOptions): Promise<MediaGcReport> {
+    const { dryRun } = options;
+    const cutoff = new Date(Date.now() - options.gracePeriodMs);
+    const report: MediaGcReport = {
+      dryRun,
+      scanned: 0,
+      orphans: [],
+      orphanBytes: 0,
+      deleted: 0,
+      failed: 0,
+      expiredUploads: await UploadService.expire(dryRun),
+      unreachable: [],
+    };
+
+    // References are gathered before listing, so a file stored meanwhile
+    // is either referenced already or within the grace period
+    const referenced = await MediaGcService.referencedKeys(cutoff);
+
+    for (const driver of StorageService.drivers) {
+      try {
+        for await (const file of driver.list()) {
+          report.scanned++;
+
+          if (
+            file.createdAt >= cutoff ||
+            referenced.has(`${driver.name}:${file.key}`)
+          ) {
+            continue;
+          }
+
+          report.orphans.push({
+            url: file.url,
+            bytes: file.bytes,
+            createdAt: file.createdAt,
+          });
+          report.orphanBytes += file.bytes;
+        }
+      } catch (error) {
+        report.unreachable.push(driver.name);
+        loggerHelpers.logError(error as Error, {
+          action: 'list_stored_media',
+          driver: driver.name,
+        });
+      }
+    }
+
+    for (const orphan of report.orphans) {
+      if (dryRun) {
+        loggerHelpers.logUpload('orphan_found', orphan.url, orphan.bytes);
+        continue;
+      }
+
+      if (await MediaGcService.remove(orphan.url, cutoff)) {
+        report.deleted++;
+        loggerHelpers.logUpload('orphan_deleted', orphan.url, orphan.bytes);
+      } else {
+        report.failed++;
+      }
+    }
+
+    return report;
+  }
+
+  // Delete an orphaned file and the media asset it belongs to, if any,
+  // unless something retained the asset since references were gathered
+  private static async remove(url: string, cutoff: Date): Promise<boolean> {
+    try {
+      const asset = await prisma.mediaAsset.findFirst({
+        where: { OR: [{ url }, { variants: { array_contains: [{ url }] } }] },
+        select: { id: true },
+      });
+
+      if (asset) {
+        const { count } = await prisma.mediaAsset.deleteMany({
+          where: { id: asset.id, updatedAt: { lt: cutoff } },
+        });
+        if (count === 0) return false;
+      }
+
+      return await StorageService.delete(url);
+    } catch (error) {
+      loggerHelpers.logError(error as Error, {
+        action: 'delete_orphaned_media',
+        url,
+      });
+      return false;
+    }
+  }
+
+  // `driver:key` of every stored file something refers to. Media assets
+  // updated since the cutoff count too: they were just stored or retained.
+  private static async referencedKeys(cutoff: Date): Promise<Set<string>> {
+    const keys = new Set<string>();
+    const add = (...urls: (string | null | undefined)[]) => {
+      for (const url of urls) {
+        const location = url ? StorageService.locate(url) : null;
+        if (location) keys.add(`${location.driver}:${location.key}`);
+      }
+    };
+
+    await MediaGcService.scan(
+      (page) =>
+        prisma.user.findMany({
+          ...page,
+          where: { avatar: { not: null } },
+          select: { id: true, avatar: true },
+        }),
+      (user) => add(user.avatar)
+    );
+    await MediaGcService.scan(
+      (page) =>
+        prisma.postMedia.findMany({
+          ...page,
+          select: { id: true, url: true, posterUrl: true, variants: true },
+        }),
+      (media) => add(media.url, media.posterUrl, ...variantUrls(media.variants))
+    );
+    await MediaGcService.scan(
+      (page) =>
+        prisma.postDraftMedia.findMany({
+          ...page,
+          select: { id: true, url: true, posterUrl: true, variants: true },
+        }),
+      (media) => add(media.url, media.posterUrl, ...variantUrls(media.variants))
+    );
+    await MediaGcService.scan(
+      (page) =>
+        prisma.story.findMany({
+          ...page,
+          select: { id: true, mediaUrl: true },
+        }),
+      (story) => add(story.mediaUrl)
+    );
+    // Deleted messages keep nothing, even if they still carry a URL
+    await MediaGcService.scan(
+      (page) =>
+        prisma.message.findMany({
+          ...page,
+          where: { mediaUrl: { not: null }, isDeleted: false },
+          select: { id: true, mediaUrl: true },
+        }),
+      (message) => add(message.mediaUrl)
+    );
+    await MediaGcService.scan(
+      (page) =>
+        prisma.conversation.findMany({
+          ...page,
+          where: { avatar: { not: null } },
+          select: { id: true, avatar: true },
+        }),
+      (conversation) => add(conversation.avatar)
+    );
+    await MediaGcService.scan(
+      (page) =>
+        prisma.collection.findMany({
+          ...page,
+          where: { coverUrl: { not: null } },
+          select: { id: true, coverUrl: true },
+        }),
+      (collection) => add(collection.coverUrl)
+    );
+    await MediaGcService.scan(
+      (page) =>
+        prisma.highlight.findMany({
+          ...page,
+          where: { coverUrl: { not: null } },
+          select: { id: true, coverUrl: true },
+        }),
+      (highlight) => add(highlight.coverUrl)
+    );
+    // Uploads that can still be claimed, or are being completed
+    await MediaGcService.scan(
+      (page) =>
+        prisma.upload.findMany({
+          ...page,
+          where: {
+            url: { not: null },
+            OR: [
+              { expiresAt: { gte: new Date() } },
+              { status: UploadStatus.PROCESSING },
+            ],
+          },
+          select: { id: true, url: true, posterUrl: true, variants: true },
+        }),
+      (upload) =>
+        add(upload.url, upload.posterUrl, ...variantUrls(upload.variants))
+    );
+    await MediaGcService.scan(
+      (page) =>
+        prisma.mediaAsset.findMany({
+          ...page,
+          where: { updatedAt: { gte: cutoff } },
+          select: { id: true, url: true, variants: true },
+        }),
+      (asset) => add(asset.url, ...variantUrls(asset.variants))
+    );
+
+    return keys;
+  }
+
+  // Go through a table in batches ordered by ID
+  private static async scan<T extends { id: string }>(
+    fetch: (page: {
+      take: number;
+      skip?: number;
+      cursor?: { id: string };
+      orderBy: { id: 'asc' };
+    }) => Promise<T[]>,
+    visit: (row: T) => void
+  ): Promise<void> {
+    let cursor: string | undefined;
+
+    do {
+      const rows = await fetch({
+        take: SCAN_BATCH_SIZE,
+        orderBy: { id: 'asc' },
+        ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+      });
+
+      rows.forEach(visit);
+      cursor =
+        rows.length === SCAN_BATCH_SIZE ? rows[rows.length - 1].id : undefined;
+    } while (cursor);
+  }
+}
+
+// URLs of the variants of an image stored as variants
+const variantUrls = (variants: Prisma.JsonValue | null): string[] =>
+  Array.isArray(variants)
+    ? (variants as unknown as ImageVariant[]).map((variant) => variant.url)
+    : [];
+
+export default MediaGcService;
@@ -0,0 +1,202 @@
+import { prisma } from '../config/database';
+import { ArrayUtils, StringUtils } from '../utils/helpers';
+import { BlockService } from './block.service';
+import { NotificationService } from './notification.service';
+import { VisibilityService } from './visibility.service';
+
+// Longest username that can be mentioned
+const MAX_USERNAME_LENGTH = 30;
+
+// Most users resolved from a single caption or comment
+const MAX_MENTIONS = 20;
+
+// Mentioned user fields returned so clients can render links
+export const mentionUserSelect = {
+  id: true,
+  username: true,
+} as const;
+
+// Include mentions on posts and comments
+export const mentionsInclude = {
+  select: {
+    user: {
+      select: mentionUserSelect,
+    },
+  },
+} as const;
+
+export interface MentionedUser {
+  id: string;
+  username: string;
+}
+
+interface MentionContext {
+  authorId: string;
+  authorUsername: string;
+  // Owner of the post the text belongs to; decides who may see it
+  postOwnerId: string;
+  postId: string;
+  commentId?: string;
+}
+
+export class MentionService {
+  // Parse unique, normalized usernames from text
+  static parseText(text?: string | null): string[] {
+    if (!text) return [];
+
+    return ArrayUtils.unique(StringUtils.extractMentions(text))
+      .map((username) => username.replace(/\.+$/, ''))
+      .filter(
+        (username) =>
+          username.length > 0 && username.length <= MAX_USERNAME_LENGTH
+      )
+      .slice(0, MAX_MENTIONS);
+  }
+
+  // Resolve @usernames in text to existing users. Users who blocked the
+  // author, or were blocked by them, cannot be mentioned.
+  static async resolve(
+    text: string | null | undefined,
+    authorId: string
+  ): Promise<MentionedUser[]> {
+    const usernames = MentionService.parseText(text);
+    if (usernames.length === 0) return [];
+
+    return prisma.user.findMany({
+      where: {
+        username: { in: usernames, mode: 'insensitive' },
+        ...BlockService.notBlockedWhere(authorId),
+      },
+      select: mentionUserSelect,
+    });
+  }
+
+  // Flatten included mention rows into the mentioned users
+  static format(mentions: { user: MentionedUser }[]): MentionedUser[] {
+    return mentions.map((mention) => mention.user);
+  }
+
+  // Make a post's caption mentions match its caption and notify
+  // users who were newly mentioned
+  static async syncPostMentions(
+    postId: string,
+    caption: string | null | undefined,
+    author: { id: string; username: string }
+  ): Promise<MentionedUser[]> {
+    const users = await MentionService.resolve(caption, author.id);
+
+    const added = await MentionService.replaceMentions(
+      { postId },
+      users.map((user) => user.id)
+    );
+
+    await MentionService.notify(added, {
+      authorId: author.id,
+      authorUsername: author.username,
+      postOwnerId: author.id,
+      postId,
+    });
+
+    return users;
+  }
+
+  // Make a comment's mentions match its content and notify users who
+  // were newly mentioned
+  static async syncCommentMentions(
+    comment: { id: string; postId: string; postOwnerId: string },
+    content: string,
+    author: { id: string; username: string }
+  ): Promise<MentionedUser[]> {
+    const users = await MentionService.resolve(content, author.id);
+
+    const added = await MentionService.replaceMentions(
+      { commentId: comment.id },
+      users.map((user) => user.id)
+    );
+
+    await MentionService.notify(added, {
+      authorId: author.id,
+      authorUsername: author.username,
+      postOwnerId: comment.postOwnerId,
+      postId: comment.postId,
+      commentId: comment.id,
+    });
+
+    return users;
+  }
+
+  // Replace the stored mentions of a post or comment, returning the IDs
+  // of users that were not mentioned before
+  private static async replaceMentions(
+    target: { postId: string } | { commentId: string },
+    userIds: string[]
+  ): Promise<string[]> {
+    return prisma.$transaction(async (tx) => {
+      const existing = await tx.mention.findMany({
+        where: target,
+        select: { userId: true },
+      });
+
+      const current = existing.map((mention) => mention.userId);
+      const added = userIds.filter((userId) => !current.includes(userId));
+      const removed = current.filter((userId) => !userIds.includes(userId));
+
+      if (removed.length > 0) {
+        await tx.mention.deleteMany({
+          where: { ...target, userId: { in: removed } },
+        });
+      }
+
+      if (added.length > 0) {
+        await tx.mention.createMany({
+          data: added.map((userId) => ({ ...target, userId })),
+          skipDuplicates: true,
+        });
+      }
+
+      return added;
+    });
+  }
+
+  // Users that may be notified about a mention: not the author, and
+  // able to see the post the mention appears on
+  static async filterNotifiable(
+    userIds: string[],
+    context: Pick<MentionContext, 'authorId' | 'postOwnerId'>
+  ): Promise<string[]> {
+    const candidates = userIds.filter((userId) => userId !== context.authorId);
+    if (candidates.length === 0) return [];
+
+    const owner = await prisma.user.findUnique({
+      where: { id: context.postOwnerId },
+      select: { id: true, isPrivate: true },
+    });
+
+    if (!owner) return [];
+
+    return VisibilityService.filterViewers(owner, candidates);
+  }
+
+  // Send MENTION notifications to newly mentioned users
+  private static async notify(userIds: string[], context: MentionContext) {
+    const receivers = await MentionService.filterNotifiable(userIds, context);
+
+    for (const receiverId of receivers) {
+      await NotificationService.create({
+        senderId: context.authorId,
+        receiverId,
+        type: 'MENTION',
+        title: 'New mention',
+        content: context.commentId
+          ? `${context.authorUsername} mentioned you in a comment`
+          : `${context.authorUsername} mentioned you in a post`,
+        data: {
+          postId: context.postId,
+          ...(context.commentId ? { commentId: context.commentId } : {}),
+        },
+      });
+    }
+  }
+}
+
+export default MentionService;
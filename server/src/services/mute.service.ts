@@ -0,0 +1,61 @@
+import { prisma } from '../config/database';
+
+// What a mute hides from the muter
+export type MuteScope = 'posts' | 'stories';
+
+export interface MuteOptions {
+  posts?: boolean;
+  stories?: boolean;
+}
+
+// Muting is one-sided and silent: it only changes what the muter sees, so
+// the muted user is never notified and no socket events are emitted.
+export class MuteService {
+  // IDs of users whose posts or stories the given user has muted
+  static async getMutedUserIds(
+    userId: string,
+    scope: MuteScope
+  ): Promise<string[]> {
+    const mutes = await prisma.mute.findMany({
+      where: {
+        muterId: userId,
+        ...(scope === 'posts' ? { mutePosts: true } : { muteStories: true }),
+      },
+      select: { mutedId: true },
+    });
+
+    return mutes.map((mute) => mute.mutedId);
+  }
+
+  // Mute a user, or change what an existing mute hides. Omitted flags
+  // default to muting both posts and stories.
+  static async mute(
+    muterId: string,
+    mutedId: string,
+    options: MuteOptions = {}
+  ) {
+    const data = {
+      mutePosts: options.posts ?? true,
+      muteStories: options.stories ?? true,
+    };
+
+    return prisma.mute.upsert({
+      where: {
+        muterId_mutedId: { muterId, mutedId },
+      },
+      create: { muterId, mutedId, ...data },
+      update: data,
+    });
+  }
+
+  // Lift a mute
+  static async unmute(muterId: string, mutedId: string) {
+    await prisma.mute.delete({
+      where: {
+        muterId_mutedId: { muterId, mutedId },
+      },
+    });
+  }
+}
+
+export default MuteService;
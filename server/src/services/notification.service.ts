@@ -0,0 +1,67 @@
+import { NotificationType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { socketHelpers } from '../config/socket';
+import logger from '../utils/logger';
+
+export interface CreateNotificationParams {
+  senderId?: string | null;
+  receiverId: string;
+  type: NotificationType;
+  title: string;
+  content: string;
+  data?: Prisma.InputJsonValue;
+}
+
+// Sender fields returned with every notification
+export const notificationSenderSelect = {
+  id: true,
+  username: true,
+  fullName: true,
+  avatar: true,
+  isVerified: true,
+} as const;
+
+export class NotificationService {
+  // Persist a notification and push it to the receiver in real time.
+  // Failures are logged and swallowed so they never break the action
+  // that triggered the notification.
+  static async create(params: CreateNotificationParams) {
+    const { senderId, receiverId, type, title, content, data } = params;
+
+    // Users are never notified about their own actions
+    if (senderId && senderId === receiverId) {
+      return null;
+    }
+
+    try {
+      const notification = await prisma.notification.create({
+        data: {
+          senderId: senderId || null,
+          receiverId,
+          type,
+          title,
+          content,
+          data,
+        },
+        include: {
+          sender: {
+            select: notificationSenderSelect,
+          },
+        },
+      });
+
+      try {
+        socketHelpers.sendNotification(receiverId, notification);
+      } catch (error) {
+        logger.warn('Failed to deliver notification in real time:', error);
+      }
+
+      return notification;
+    } catch (error) {
+      logger.error('Failed to create notification:', error);
+      return null;
+    }
+  }
+}
+
+export default NotificationService;
@@ -0,0 +1,291 @@
+import { FastifyRequest } from 'fastify';
+import { MultipartFile } from '@fastify/multipart';
+import { MediaType, Prisma } from '@prisma/client';
+import { prisma, config } from '../config/database';
+import { ValidationError } from '../middleware/errorHandler';
+import { StorageService } from './storage';
+import { MediaAssetService } from './media-asset.service';
+import { StorageQuotaService } from './storage-quota.service';
+import type { ImageVariant } from '../types/storage';
+
+// Most media items a single post can carry
+export const MAX_POST_MEDIA = 10;
+
+// Largest file accepted for a post
+export const MAX_POST_MEDIA_SIZE = 50 * 1024 * 1024; // 50MB
+
+// Accepted upload types and the media type they are stored as
+export const POST_MEDIA_TYPES: Record<string, MediaType> = {
+  'image/jpeg': MediaType.IMAGE,
+  'image/png': MediaType.IMAGE,
+  'image/gif': MediaType.IMAGE,
+  'video/mp4': MediaType.VIDEO,
+  'video/quicktime': MediaType.VIDEO,
+  'video/webm': MediaType.VIDEO,
+};
+
+// A file uploaded for a post that is not yet attached to it
+export interface UploadedPostMedia {
+  url: string;
+  type: MediaType;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  posterUrl: string | null;
+  variants: ImageVariant[] | null;
+  placeholder: string | null;
+  // Stored size, variants included
+  bytes: number;
+  // Set when this request stored the file, rather than reusing a copy
+  // stored before that may be in use elsewhere
+  created?: boolean;
+}
+
+export interface ReceivedPostUpload {
+  fields: Record<string, string>;
+  media: UploadedPostMedia[];
+}
+
+export class PostMediaService {
+  // Read a multipart post upload, storing each file in order as it
+  // arrives while the user's storage quota allows. If anything fails,
+  // files already stored are removed. `check` can refuse the upload
+  // before each file is stored, given the fields sent ahead of it and the
+  // number of files including it, and once every part has arrived.
+  static async receive(
+    request: FastifyRequest,
+    userId: string,
+    check?: (fields: Record<string, string>, files: number) => void
+  ): Promise<ReceivedPostUpload> {
+    const fields: Record<string, string> = {};
+    const media: UploadedPostMedia[] = [];
+
+    try {
+      const parts = request.parts({
+        limits: {
+          files: MAX_POST_MEDIA + 1,
+          fileSize: MAX_POST_MEDIA_SIZE,
+        },
+      });
+
+      for await (const part of parts) {
+        if (part.type === 'field') {
+          fields[part.fieldname] = String(part.value);
+          continue;
+        }
+
+        if (media.length >= MAX_POST_MEDIA) {
+          throw new ValidationError(`Maximum ${MAX_POST_MEDIA} files allowed`);
+        }
+        check?.(fields, media.length + 1);
+
+        const pendingBytes = media.reduce((sum, item) => sum + item.bytes, 0);
+        media.push(
+          await PostMediaService.store(part, userId, media.length, pendingBytes)
+        );
+      }
+
+      check?.(fields, media.length);
+
+      return { fields, media };
+    } catch (error) {
+      await PostMediaService.discard(media);
+      throw error;
+    }
+  }
+
+  // Check and store a single file of a multipart upload. Files of the
+  // same request stored before it, not yet part of the user's storage
+  // usage, are given as pending bytes.
+  static async store(
+    file: MultipartFile,
+    userId: string,
+    index = 0,
+    pendingBytes = 0
+  ): Promise<UploadedPostMedia> {
+    const buffer = await PostMediaService.read(file);
+
+    await StorageQuotaService.assertAvailable(
+      userId,
+      pendingBytes + buffer.length
+    );
+
+    return PostMediaService.storeData(
+      buffer,
+      { contentType: file.mimetype, fileName: file.filename },
+      userId,
+      index
+    );
+  }
+
+  // Check the type of a file of a multipart upload and read it, within
+  // the size limit for post media
+  static async read(file: MultipartFile): Promise<Buffer> {
+    PostMediaService.typeOf(file.mimetype);
+
+    try {
+      return await file.toBuffer();
+    } catch (error) {
+      if ((error as { code?: string }).code === 'FST_REQ_FILE_TOO_LARGE') {
+        throw new ValidationError(
+          `File size exceeds limit of ${MAX_POST_MEDIA_SIZE / 1024 / 1024}MB`
+        );
+      }
+      throw error;
+    }
+  }
+
+  // Check and store the content of a file. Videos are kept as sent and
+  // get a poster frame; images are stored as a set of variants.
+  static async storeData(
+    data: Buffer,
+    file: { contentType: string; fileName?: string },
+    userId: string,
+    index = 0
+  ): Promise<UploadedPostMedia> {
+    const type = PostMediaService.typeOf(file.contentType);
+    const options = {
+      folder: 'posts',
+      name: `post_${userId}_${Date.now()}_${index}`,
+      contentType: file.contentType,
+      originalName: file.fileName,
+    };
+
+    if (type === MediaType.IMAGE) {
+      const image = await MediaAssetService.storeImage(data, {
+        ...options,
+        transform: { width: 1080, fit: 'inside' },
+      });
+
+      return {
+        url: image.url,
+        type,
+        width: image.width,
+        height: image.height,
+        duration: null,
+        posterUrl: null,
+        variants: image.variants,
+        placeholder: image.placeholder,
+        bytes: image.bytes,
+        created: image.created,
+      };
+    }
+
+    const stored = await MediaAssetService.store(data, options);
+
+    const media: UploadedPostMedia = {
+      url: stored.url,
+      type,
+      width: stored.width,
+      height: stored.height,
+      duration: null,
+      posterUrl: null,
+      variants: null,
+      placeholder: null,
+      bytes: stored.bytes,
+      created: stored.created,
+    };
+
+    if (type === MediaType.VIDEO) {
+      media.duration = stored.duration;
+      media.posterUrl = StorageService.posterUrl(stored.url);
+
+      // The length is only known once the video has been processed
+      if (media.duration === null) {
+        await PostMediaService.discard([media]);
+        throw new ValidationError('Video length could not be determined');
+      }
+      if (!PostMediaService.isAllowedDuration(media.duration)) {
+        await PostMediaService.discard([media]);
+        throw new ValidationError(
+          `Videos can be at most ${config.upload.maxVideoDurationSeconds} seconds long`
+        );
+      }
+    }
+
+    return media;
+  }
+
+  // Media type a content type is stored as, if posts accept it
+  static typeOf(contentType: string): MediaType {
+    const type = POST_MEDIA_TYPES[contentType];
+    if (!type) {
+      throw new ValidationError(
+        `File type ${contentType} not allowed. Allowed types: ${Object.keys(POST_MEDIA_TYPES).join(', ')}`
+      );
+    }
+
+    return type;
+  }
+
+  // Whether a video is known to be short enough for a post
+  static isAllowedDuration(duration: number | null | undefined): boolean {
+    return (
+      duration !== null &&
+      duration !== undefined &&
+      duration <= config.upload.maxVideoDurationSeconds
+    );
+  }
+
+  // Remove files this request stored that never made it into a post.
+  // Media it reused is left alone.
+  static async discard(media: UploadedPostMedia[]) {
+    await MediaAssetService.discard(
+      media.filter((item) => item.created).map((item) => item.url)
+    );
+  }
+
+  // Variants in the form a Json column takes
+  static toJson(
+    variants: ImageVariant[] | null | undefined
+  ): Prisma.InputJsonArray | undefined {
+    return variants?.map(({ url, width, height, format }) => ({
+      url,
+      width,
+      height,
+      format,
+    }));
+  }
+
+  // Whether the IDs are exactly the post's media, each listed once
+  static async isCompleteOrder(
+    postId: string,
+    mediaIds: string[]
+  ): Promise<boolean> {
+    const media = await prisma.postMedia.findMany({
+      where: { postId },
+      select: { id: true },
+    });
+
+    return (
+      new Set(mediaIds).size === mediaIds.length &&
+      mediaIds.length === media.length &&
+      media.every((item) => mediaIds.includes(item.id))
+    );
+  }
+
+  // Give a post's media the order of the given IDs
+  static async setOrder(postId: string, mediaIds: string[]) {
+    await prisma.$transaction(
+      mediaIds.map((id, order) =>
+        prisma.postMedia.update({
+          where: { id, postId },
+          data: { order },
+        })
+      )
+    );
+  }
+
+  // Order for media appended to the end of a post
+  static async nextOrder(postId: string): Promise<number> {
+    const last = await prisma.postMedia.findFirst({
+      where: { postId },
+      orderBy: { order: 'desc' },
+      select: { order: true },
+    });
+
+    return last ? last.order + 1 : 0;
+  }
+}
+
+export default PostMediaService;
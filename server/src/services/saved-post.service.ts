@@ -0,0 +1,222 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { VisibilityService } from './visibility.service';
+
+// Most posts a collection can be created or reordered with at once
+export const MAX_COLLECTION_POSTS = 100;
+
+// Post fields served with saved posts
+export const savedPostInclude = (userId: string) =>
+  ({
+    user: {
+      select: {
+        id: true,
+        username: true,
+        fullName: true,
+        avatar: true,
+        isVerified: true,
+      },
+    },
+    media: {
+      orderBy: { order: 'asc' },
+    },
+    likes: {
+      where: { userId },
+      select: { userId: true },
+    },
+  }) satisfies Prisma.PostInclude;
+
+// Filter for a user's saved posts they can still see. Posts whose author
+// went private, blocked them or archived the post drop out until that
+// changes; deleted posts are removed with their saves.
+export const visibleSavedPostWhere = (userId: string) =>
+  ({
+    userId,
+    post: {
+      user: VisibilityService.visibleOwnersWhere(userId),
+      OR: [{ isArchived: false }, { userId }],
+    },
+  }) satisfies Prisma.SavedPostWhereInput;
+
+// Include what a collection summary needs: its first visible post for
+// the cover and the number of visible posts
+export const collectionSummaryInclude = (userId: string) =>
+  ({
+    posts: {
+      where: { savedPost: visibleSavedPostWhere(userId) },
+      orderBy: { position: 'asc' },
+      take: 1,
+      select: {
+        savedPost: {
+          select: {
+            post: {
+              select: {
+                media: {
+                  orderBy: { order: 'asc' },
+                  take: 1,
+                  select: { url: true },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    _count: {
+      select: {
+        posts: { where: { savedPost: visibleSavedPostWhere(userId) } },
+      },
+    },
+  }) satisfies Prisma.CollectionInclude;
+
+type CollectionWithSummary = Prisma.CollectionGetPayload<{
+  include: ReturnType<typeof collectionSummaryInclude>;
+}>;
+
+type SavedPostWithPost = Prisma.SavedPostGetPayload<{
+  include: { post: { include: ReturnType<typeof savedPostInclude> } };
+}>;
+
+export class SavedPostService {
+  // Whether the user has saved the post
+  static async isSaved(userId: string, postId: string): Promise<boolean> {
+    const saved = await prisma.savedPost.findUnique({
+      where: { userId_postId: { userId, postId } },
+      select: { id: true },
+    });
+
+    return !!saved;
+  }
+
+  // IDs from the list that are not posts the user can see
+  static async findUnavailablePostIds(
+    userId: string,
+    postIds: string[]
+  ): Promise<string[]> {
+    const posts = await prisma.post.findMany({
+      where: {
+        id: { in: postIds },
+        user: VisibilityService.visibleOwnersWhere(userId),
+        OR: [{ isArchived: false }, { userId }],
+      },
+      select: { id: true },
+    });
+    const visibleIds = posts.map((post) => post.id);
+
+    return postIds.filter((postId) => !visibleIds.includes(postId));
+  }
+
+  // Save posts for the user, keeping existing saves. Returns the saved
+  // post IDs in the order given.
+  static async saveMany(userId: string, postIds: string[]): Promise<string[]> {
+    await prisma.savedPost.createMany({
+      data: postIds.map((postId) => ({ userId, postId })),
+      skipDuplicates: true,
+    });
+
+    const saves = await prisma.savedPost.findMany({
+      where: { userId, postId: { in: postIds } },
+      select: { id: true, postId: true },
+    });
+
+    return postIds.map(
+      (postId) => saves.find((save) => save.postId === postId)!.id
+    );
+  }
+
+  // Position after the user's last collection
+  static async nextCollectionPosition(userId: string): Promise<number> {
+    const last = await prisma.collection.findFirst({
+      where: { userId },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    return last ? last.position + 1 : 0;
+  }
+
+  // Reorder the user's collections. Collections left out keep their
+  // relative order after the listed ones.
+  static async setCollectionOrder(userId: string, collectionIds: string[]) {
+    const collections = await prisma.collection.findMany({
+      where: { userId },
+      orderBy: { position: 'asc' },
+      select: { id: true },
+    });
+    const ordered = [
+      ...collectionIds,
+      ...collections
+        .map((collection) => collection.id)
+        .filter((id) => !collectionIds.includes(id)),
+    ];
+
+    await prisma.$transaction(
+      ordered.map((id, position) =>
+        prisma.collection.update({ where: { id }, data: { position } })
+      )
+    );
+  }
+
+  // Replace a collection's posts with the given ordered saves
+  static async setCollectionPosts(
+    collectionId: string,
+    savedPostIds: string[]
+  ) {
+    await prisma.$transaction([
+      prisma.collectionPost.deleteMany({ where: { collectionId } }),
+      prisma.collectionPost.createMany({
+        data: savedPostIds.map((savedPostId, position) => ({
+          collectionId,
+          savedPostId,
+          position,
+        })),
+      }),
+    ]);
+  }
+
+  // Append a save to the end of a collection unless it is already there
+  static async addToCollection(collectionId: string, savedPostId: string) {
+    const last = await prisma.collectionPost.findFirst({
+      where: { collectionId },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    await prisma.collectionPost.upsert({
+      where: { collectionId_savedPostId: { collectionId, savedPostId } },
+      create: {
+        collectionId,
+        savedPostId,
+        position: last ? last.position + 1 : 0,
+      },
+      update: {},
+    });
+  }
+
+  // Resolve a collection's cover, which falls back to the first visible
+  // post's media
+  static formatCollection(collection: CollectionWithSummary) {
+    const { posts, _count, ...rest } = collection;
+
+    return {
+      ...rest,
+      cover:
+        collection.coverUrl || posts[0]?.savedPost.post.media[0]?.url || null,
+      postsCount: _count.posts,
+    };
+  }
+
+  // Shape a saved post for its saver
+  static formatPost(saved: SavedPostWithPost) {
+    const { likes, ...post } = saved.post;
+
+    return {
+      ...post,
+      isLiked: likes.length > 0,
+      isSaved: true,
+      savedAt: saved.createdAt,
+    };
+  }
+}
+
+export default SavedPostService;
@@ -12,7 +12,6 @@ import { handlePost } from '../sockets/post';
 import { handleStory } from '../sockets/story';
 import { handleUpload } from '../sockets/upload';
 import { handleFeed } from '../sockets/feed';
-import { handleFollow } from '../sockets/follow';
 import { AuthenticatedSocket } from '../types/authSocket';
 
 class SocketService {
@@ -64,9 +63,6 @@ class SocketService {
       // Handle feed operations
       handleFeed(socket);
 
-      // Handle follow operations
-      handleFollow(socket);
-
       // Handle connection events
       handleConnection(socket, this.connectedUsers);
     });
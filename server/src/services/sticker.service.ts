@@ -0,0 +1,365 @@
+import { Prisma, StickerType, StoryAudience } from '@prisma/client';
+import { prisma } from '../config/database';
+import { socketHelpers } from '../config/socket';
+import logger from '../utils/logger';
+import { ValidationUtils } from '../utils/helpers';
+import { ValidationError } from '../middleware/errorHandler';
+import { BlockService } from './block.service';
+import { CloseFriendService } from './close-friend.service';
+import { NotificationService } from './notification.service';
+import { VisibilityService } from './visibility.service';
+import type { CreateStickerRequest, StickerResponseRequest } from '../types';
+import type { StoryStickerResponseEvent } from '../types/story';
+
+// Most stickers a single story can carry
+export const MAX_STORY_STICKERS = 10;
+
+// Sticker types viewers can answer
+export const RESPONDABLE_STICKER_TYPES: StickerType[] = [
+  StickerType.POLL,
+  StickerType.QUESTION,
+  StickerType.QUIZ,
+  StickerType.EMOJI_SLIDER,
+];
+
+// Responder fields shown to the story owner
+export const stickerResponderSelect = {
+  id: true,
+  username: true,
+  fullName: true,
+  avatar: true,
+  isVerified: true,
+} as const;
+
+// Include a story's stickers with the viewer's own answers
+export const stickersInclude = (viewerId: string) =>
+  ({
+    orderBy: { createdAt: 'asc' },
+    include: {
+      responses: {
+        where: { userId: viewerId },
+        take: 1,
+      },
+    },
+  }) satisfies Prisma.Story$stickersArgs;
+
+type StickerWithResponses = Prisma.StoryStickerGetPayload<{
+  include: { responses: true };
+}>;
+
+type StickerResponseRecord = Prisma.StickerResponseGetPayload<object>;
+
+interface StickerData {
+  options?: string[];
+  correctOptionIndex?: number;
+  username?: string;
+  url?: string;
+  [key: string]: unknown;
+}
+
+export class StickerService {
+  // Check sticker payloads beyond their JSON schema and turn them into
+  // rows for a new story. Mention stickers are resolved to users here.
+  static async prepare(
+    authorId: string,
+    stickers: CreateStickerRequest[] = []
+  ): Promise<Prisma.StoryStickerCreateWithoutStoryInput[]> {
+    if (stickers.length > MAX_STORY_STICKERS) {
+      throw new ValidationError(
+        `A story can have at most ${MAX_STORY_STICKERS} stickers`
+      );
+    }
+
+    const prepared: Prisma.StoryStickerCreateWithoutStoryInput[] = [];
+
+    for (const sticker of stickers) {
+      const data: StickerData = { ...sticker.data };
+
+      if (sticker.type === StickerType.QUIZ) {
+        const options = data.options || [];
+        const correct = data.correctOptionIndex;
+        if (
+          typeof correct !== 'number' ||
+          correct < 0 ||
+          correct >= options.length
+        ) {
+          throw new ValidationError(
+            'Quiz correctOptionIndex must point to one of its options'
+          );
+        }
+      }
+
+      if (sticker.type === StickerType.LINK) {
+        const url = String(data.url || '');
+        if (!ValidationUtils.isValidUrl(url) || !/^https?:\/\//i.test(url)) {
+          throw new ValidationError('Link stickers need an http(s) URL');
+        }
+      }
+
+      if (sticker.type === StickerType.MENTION) {
+        const user = await prisma.user.findFirst({
+          where: {
+            username: {
+              equals: String(data.username || '').replace(/^@/, ''),
+              mode: 'insensitive',
+            },
+            ...BlockService.notBlockedWhere(authorId),
+          },
+          select: { id: true, username: true },
+        });
+
+        if (!user) {
+          throw new ValidationError(
+            `Mentioned user @${data.username} not found`
+          );
+        }
+
+        data.userId = user.id;
+        data.username = user.username;
+      }
+
+      prepared.push({
+        type: sticker.type,
+        x: sticker.position.x,
+        y: sticker.position.y,
+        width: sticker.position.width,
+        height: sticker.position.height,
+        rotation: sticker.position.rotation ?? 0,
+        data: data as Prisma.InputJsonObject,
+      });
+    }
+
+    return prepared;
+  }
+
+  // Notify users mentioned with stickers who are able to see the story
+  static async notifyMentions(
+    story: { id: string; audience: StoryAudience },
+    author: { id: string; username: string; isPrivate: boolean },
+    stickers: { type: StickerType; data: Prisma.JsonValue }[]
+  ) {
+    const mentionedIds = stickers
+      .filter((sticker) => sticker.type === StickerType.MENTION)
+      .map((sticker) => String((sticker.data as StickerData).userId))
+      .filter((userId) => userId !== author.id);
+
+    if (mentionedIds.length === 0) return;
+
+    const receivers = await VisibilityService.filterViewers(
+      author,
+      mentionedIds
+    );
+
+    for (const receiverId of new Set(receivers)) {
+      const canSee = await CloseFriendService.canViewStory(receiverId, {
+        userId: author.id,
+        audience: story.audience,
+      });
+      if (!canSee) continue;
+
+      await NotificationService.create({
+        senderId: author.id,
+        receiverId,
+        type: 'MENTION',
+        title: 'New mention',
+        content: `${author.username} mentioned you in their story`,
+        data: { storyId: story.id },
+      });
+    }
+  }
+
+  // Shape a sticker for a viewer. Quiz answers stay hidden from viewers
+  // until they have answered.
+  static format(sticker: StickerWithResponses, isOwner: boolean) {
+    const { responses, x, y, width, height, rotation, ...rest } = sticker;
+    const data: StickerData = { ...(sticker.data as StickerData) };
+    const own = responses[0];
+
+    if (sticker.type === StickerType.QUIZ && !isOwner && !own) {
+      delete data.correctOptionIndex;
+    }
+
+    return {
+      ...rest,
+      data,
+      position: { x, y, width, height, rotation },
+      viewerResponse: own ? StickerService.formatResponse(sticker, own) : null,
+    };
+  }
+
+  // Shape stories' stickers for a viewer
+  static formatStory<
+    T extends { userId: string; stickers: StickerWithResponses[] },
+  >(story: T, viewerId: string) {
+    return {
+      ...story,
+      stickers: story.stickers.map((sticker) =>
+        StickerService.format(sticker, story.userId === viewerId)
+      ),
+    };
+  }
+
+  // Shape a single answer, marking quiz answers right or wrong
+  static formatResponse(
+    sticker: { type: StickerType; data: Prisma.JsonValue },
+    response: StickerResponseRecord
+  ) {
+    const correct = (sticker.data as StickerData).correctOptionIndex;
+
+    return {
+      id: response.id,
+      optionIndex: response.optionIndex,
+      text: response.text,
+      value: response.value,
+      ...(sticker.type === StickerType.QUIZ
+        ? { isCorrect: response.optionIndex === correct }
+        : {}),
+      createdAt: response.createdAt,
+    };
+  }
+
+  // Check an answer against the sticker it is for and turn it into the
+  // stored fields
+  static parseResponse(
+    sticker: { type: StickerType; data: Prisma.JsonValue },
+    input: StickerResponseRequest
+  ): { optionIndex?: number; text?: string; value?: number } {
+    switch (sticker.type) {
+      case StickerType.POLL:
+      case StickerType.QUIZ: {
+        const options = (sticker.data as StickerData).options || [];
+        const { optionIndex } = input;
+        if (
+          typeof optionIndex !== 'number' ||
+          optionIndex < 0 ||
+          optionIndex >= options.length
+        ) {
+          throw new ValidationError(
+            'optionIndex must point to one of the sticker options'
+          );
+        }
+        return { optionIndex };
+      }
+      case StickerType.QUESTION: {
+        const text = input.text?.trim();
+        if (!text) {
+          throw new ValidationError('text is required');
+        }
+        return { text };
+      }
+      case StickerType.EMOJI_SLIDER: {
+        const { value } = input;
+        if (typeof value !== 'number' || value < 0 || value > 1) {
+          throw new ValidationError('value must be between 0 and 1');
+        }
+        return { value };
+      }
+      default:
+        throw new ValidationError('This sticker cannot be answered');
+    }
+  }
+
+  // Aggregated results of a sticker
+  static async getResults(sticker: {
+    id: string;
+    type: StickerType;
+    data: Prisma.JsonValue;
+  }) {
+    const where = { stickerId: sticker.id };
+    const total = await prisma.stickerResponse.count({ where });
+
+    if (
+      sticker.type === StickerType.POLL ||
+      sticker.type === StickerType.QUIZ
+    ) {
+      const data = sticker.data as StickerData;
+      const counts = await prisma.stickerResponse.groupBy({
+        by: ['optionIndex'],
+        where,
+        _count: { _all: true },
+      });
+      const countFor = (index: number) =>
+        counts.find((count) => count.optionIndex === index)?._count._all || 0;
+
+      return {
+        total,
+        options: (data.options || []).map((label, index) => ({
+          index,
+          label,
+          count: countFor(index),
+          percentage:
+            total > 0 ? Math.round((countFor(index) / total) * 100) : 0,
+        })),
+        ...(sticker.type === StickerType.QUIZ
+          ? { correctCount: countFor(data.correctOptionIndex ?? -1) }
+          : {}),
+      };
+    }
+
+    if (sticker.type === StickerType.EMOJI_SLIDER) {
+      const aggregate = await prisma.stickerResponse.aggregate({
+        where,
+        _avg: { value: true },
+      });
+
+      return { total, averageValue: aggregate._avg.value };
+    }
+
+    return { total };
+  }
+
+  // Whether answers to this sticker can be changed once given. Poll and
+  // quiz answers are final.
+  static isFinal(type: StickerType): boolean {
+    return type === StickerType.POLL || type === StickerType.QUIZ;
+  }
+
+  // Store or replace a viewer's answer and push updated results to the
+  // story owner
+  static async respond(
+    sticker: { id: string; type: StickerType; data: Prisma.JsonValue },
+    story: { id: string; userId: string },
+    responder: { id: string },
+    input: StickerResponseRequest
+  ) {
+    const fields = StickerService.parseResponse(sticker, input);
+
+    const response = await prisma.stickerResponse.upsert({
+      where: {
+        stickerId_userId: { stickerId: sticker.id, userId: responder.id },
+      },
+      create: {
+        stickerId: sticker.id,
+        userId: responder.id,
+        ...fields,
+      },
+      update: fields,
+      include: {
+        user: { select: stickerResponderSelect },
+      },
+    });
+
+    const results = await StickerService.getResults(sticker);
+
+    const event: StoryStickerResponseEvent = {
+      storyId: story.id,
+      stickerId: sticker.id,
+      response: {
+        ...StickerService.formatResponse(sticker, response),
+        user: response.user,
+      },
+      results,
+      timestamp: Date.now(),
+    };
+
+    try {
+      socketHelpers.sendToUser(story.userId, 'story:sticker_response', event);
+    } catch (error) {
+      logger.warn('Failed to emit story:sticker_response:', error);
+    }
+
+    return StickerService.formatResponse(sticker, response);
+  }
+}
+
+export default StickerService;
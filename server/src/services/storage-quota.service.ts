@@ -0,0 +1,190 @@
+import { UploadStatus } from '@prisma/client';
+import { prisma, config } from '../config/database';
+import { CloudinaryService } from '../config/cloudinary';
+import { StorageQuotaError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+
+export type StorageCategory =
+  | 'posts'
+  | 'drafts'
+  | 'stories'
+  | 'avatar'
+  | 'messages'
+  | 'uploads';
+
+export interface StorageUsage {
+  used: number;
+  quota: number;
+  remaining: number;
+  // Bytes per kind of media. `uploads` covers chunked uploads not yet
+  // used by a post, story or message, and the full size of those still
+  // in progress.
+  categories: Record<StorageCategory, number>;
+}
+
+export interface StorageOverview {
+  driver: string;
+  quota: number;
+  // Stored media the app keeps track of; unused media is waiting to be
+  // collected
+  media: {
+    files: number;
+    bytes: number;
+    unusedFiles: number;
+    unusedBytes: number;
+  };
+  // Account totals reported by Cloudinary, when it is set up and reachable
+  cloudinary: {
+    usedStorage: number;
+    storageLimit: number | null;
+    usedBandwidth: number;
+    bandwidthLimit: number | null;
+    lastUpdated: string;
+  } | null;
+}
+
+// Bytes of media each user keeps stored, counted from what their posts,
+// drafts, stories, sent messages, avatar and pending uploads refer to. Media is
+// counted at its stored size, variants included, once per use; media
+// stored before sizes were recorded counts as nothing.
+export class StorageQuotaService {
+  static async usage(userId: string): Promise<StorageUsage> {
+    const [user, postMedia, draftMedia, stories, messages, uploads] =
+      await Promise.all([
+        prisma.user.findUnique({
+          where: { id: userId },
+          select: { avatar: true },
+        }),
+        prisma.postMedia.findMany({
+          where: { post: { userId } },
+          select: { url: true },
+        }),
+        prisma.postDraftMedia.findMany({
+          where: { draft: { userId } },
+          select: { url: true },
+        }),
+        prisma.story.findMany({
+          where: { userId },
+          select: { mediaUrl: true },
+        }),
+        prisma.message.findMany({
+          where: {
+            senderId: userId,
+            mediaUrl: { not: null },
+            isDeleted: false,
+          },
+          select: { mediaUrl: true },
+        }),
+        prisma.upload.findMany({
+          where: {
+            userId,
+            claimedAt: null,
+            expiresAt: { gt: new Date() },
+            status: { not: UploadStatus.FAILED },
+          },
+          select: { status: true, url: true, size: true },
+        }),
+      ]);
+
+    const urls = {
+      posts: postMedia.map((media) => media.url),
+      drafts: draftMedia.map((media) => media.url),
+      stories: stories.map((story) => story.mediaUrl),
+      avatar: user?.avatar ? [user.avatar] : [],
+      messages: messages.map((message) => message.mediaUrl!),
+      uploads: uploads
+        .filter((upload) => upload.status === UploadStatus.COMPLETED)
+        .map((upload) => upload.url!),
+    };
+
+    const assets = await prisma.mediaAsset.findMany({
+      where: { url: { in: [...new Set(Object.values(urls).flat())] } },
+      select: { url: true, bytes: true },
+    });
+    const bytesOf = new Map(assets.map((asset) => [asset.url, asset.bytes]));
+    const total = (list: string[]) =>
+      list.reduce((sum, url) => sum + (bytesOf.get(url) ?? 0), 0);
+
+    const categories: Record<StorageCategory, number> = {
+      posts: total(urls.posts),
+      drafts: total(urls.drafts),
+      stories: total(urls.stories),
+      avatar: total(urls.avatar),
+      messages: total(urls.messages),
+      uploads:
+        total(urls.uploads) +
+        uploads
+          .filter((upload) => upload.status !== UploadStatus.COMPLETED)
+          .reduce((sum, upload) => sum + upload.size, 0),
+    };
+
+    const used = Object.values(categories).reduce((sum, n) => sum + n, 0);
+    const quota = config.storage.userQuotaBytes;
+
+    return {
+      used,
+      quota,
+      remaining: Math.max(0, quota - used),
+      categories,
+    };
+  }
+
+  // Storage totals across all users
+  static async overview(): Promise<StorageOverview> {
+    const [all, unused, cloudinary] = await Promise.all([
+      prisma.mediaAsset.aggregate({ _count: true, _sum: { bytes: true } }),
+      prisma.mediaAsset.aggregate({
+        where: { refCount: { lte: 0 } },
+        _count: true,
+        _sum: { bytes: true },
+      }),
+      StorageQuotaService.cloudinaryUsage(),
+    ]);
+
+    return {
+      driver: config.storage.driver,
+      quota: config.storage.userQuotaBytes,
+      media: {
+        files: all._count,
+        bytes: all._sum.bytes ?? 0,
+        unusedFiles: unused._count,
+        unusedBytes: unused._sum.bytes ?? 0,
+      },
+      cloudinary,
+    };
+  }
+
+  // Refuse an upload of the given size if it would take the user over
+  // their quota. Checked against the size as uploaded, before it is
+  // processed for storage.
+  static async assertAvailable(userId: string, bytes: number): Promise<void> {
+    const { used, quota } = await StorageQuotaService.usage(userId);
+
+    if (used + bytes > quota) {
+      throw new StorageQuotaError(used, quota);
+    }
+  }
+
+  private static async cloudinaryUsage(): Promise<
+    StorageOverview['cloudinary']
+  > {
+    if (!config.cloudinary.cloudName) return null;
+
+    try {
+      const usage = await CloudinaryService.getUsage();
+
+      return {
+        usedStorage: usage.used_storage,
+        storageLimit: usage.limit_storage ?? null,
+        usedBandwidth: usage.used_bandwidth,
+        bandwidthLimit: usage.limit_bandwidth ?? null,
+        lastUpdated: usage.last_updated,
+      };
+    } catch (error) {
+      logger.warn('Cloudinary usage is unavailable:', error);
+      return null;
+    }
+  }
+}
+
+export default StorageQuotaService;
@@ -0,0 +1,147 @@
+import { Readable } from 'stream';
+import { CloudinaryService, UploadType } from '../../config/cloudinary';
+import { config } from '../../config/database';
+import type {
+  StorageDriver,
+  StoreOptions,
+  StoredFile,
+  StoredObject,
+  StoredResourceType,
+} from '../../types/storage';
+
+// Delivery URL of an uploaded asset:
+// https://res.cloudinary.com/<cloud>/<type>/upload/v<version>/<public_id>.<ext>
+const CLOUDINARY_URL_PATTERN =
+  /^https?:\/\/res\.cloudinary\.com\/[^/]+\/(image|video|raw)\/upload\/(?:v\d+\/)?(.+)$/;
+
+// Top-level folders the app stores under; `twilsta` holds files uploaded
+// with the folders of the upload defaults
+const STORAGE_FOLDERS = ['posts', 'avatars', 'stories', 'messages', 'twilsta'];
+
+// Most results the search API returns at once
+const SEARCH_PAGE_SIZE = 500;
+
+// Upload defaults to use for each top-level folder
+const uploadTypeFor = (folder: string): UploadType => {
+  const root = folder.split('/')[0];
+  if (root === 'avatars') return 'profile';
+  if (root === 'stories') return 'story';
+  if (root === 'messages') return 'message';
+  return 'post';
+};
+
+export class CloudinaryStorageDriver implements StorageDriver {
+  readonly name = 'cloudinary' as const;
+
+  async store(data: Buffer, options: StoreOptions): Promise<StoredFile> {
+    const { transform } = options;
+
+    const result = await CloudinaryService.uploadStream(
+      Readable.from(data),
+      {
+        folder: options.folder,
+        ...(options.name
+          ? { public_id: options.name, overwrite: true, invalidate: true }
+          : {}),
+        ...(transform
+          ? {
+              transformation: [
+                transform.fit === 'cover'
+                  ? {
+                      width: transform.width,
+                      height: transform.height ?? transform.width,
+                      crop: 'fill',
+                      gravity: 'auto',
+                    }
+                  : {
+                      width: transform.width,
+                      height: transform.height,
+                      crop: 'limit',
+                    },
+                { quality: 'auto' },
+              ],
+            }
+          : {}),
+      },
+      uploadTypeFor(options.folder)
+    );
+
+    return {
+      key: result.public_id,
+      url: result.url,
+      resourceType: (result.resource_type as StoredResourceType) ?? 'image',
+      width: result.width ?? null,
+      height: result.height ?? null,
+      duration: result.duration ?? null,
+      bytes: result.bytes ?? data.length,
+    };
+  }
+
+  owns(url: string): boolean {
+    return CLOUDINARY_URL_PATTERN.test(url);
+  }
+
+  async delete(url: string): Promise<boolean> {
+    const asset = CloudinaryStorageDriver.parse(url);
+    if (!asset) return false;
+
+    return CloudinaryService.deleteFile(asset.publicId, asset.resourceType);
+  }
+
+  posterUrl(url: string): string | null {
+    const asset = CloudinaryStorageDriver.parse(url);
+    if (!asset || asset.resourceType !== 'video') return null;
+
+    return CloudinaryService.generateVideoPoster(asset.publicId);
+  }
+
+  keyOf(url: string): string | null {
+    return CloudinaryStorageDriver.parse(url)?.publicId ?? null;
+  }
+
+  async *list(): AsyncIterable<StoredObject> {
+    // Nothing can have been stored without an account
+    if (!config.cloudinary.cloudName) return;
+
+    const expression = STORAGE_FOLDERS.map(
+      (folder) => `folder:${folder}/*`
+    ).join(' OR ');
+    let cursor: string | undefined;
+
+    do {
+      const page = await CloudinaryService.searchFiles(
+        expression,
+        SEARCH_PAGE_SIZE,
+        cursor
+      );
+
+      for (const resource of page.resources) {
+        yield {
+          key: resource.public_id,
+          url: resource.url,
+          bytes: resource.bytes ?? 0,
+          createdAt: new Date(resource.created_at),
+        };
+      }
+
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  // Public ID and resource type of an asset from its delivery URL. Raw
+  // assets keep their extension as part of the public ID.
+  private static parse(
+    url: string
+  ): { publicId: string; resourceType: StoredResourceType } | null {
+    const match = CLOUDINARY_URL_PATTERN.exec(url);
+    if (!match) return null;
+
+    const resourceType = match[1] as StoredResourceType;
+    const path = decodeURIComponent(match[2]);
+
+    return {
+      resourceType,
+      publicId: resourceType === 'raw' ? path : path.replace(/\.[^./]+$/, ''),
+    };
+  }
+}
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { config } from '../../config/database';
+import logger from '../../utils/logger';
+import { CloudinaryStorageDriver } from './cloudinary.driver';
+import { LocalStorageDriver } from './local.driver';
+import {
+  ImageProcessingService,
+  IMAGE_CONTENT_TYPES,
+} from '../image-processing.service';
+import type {
+  ImageVariant,
+  StorageDriver,
+  StorageDriverName,
+  StoreOptions,
+  StoredFile,
+  StoredImage,
+} from '../../types/storage';
+
+const drivers: Record<StorageDriverName, StorageDriver> = {
+  cloudinary: new CloudinaryStorageDriver(),
+  local: new LocalStorageDriver(),
+};
+
+// Single entry point for storing and removing uploaded media. New files
+// go to the driver selected by `config.storage.driver`; files are removed
+// through whichever driver stored them, so switching drivers keeps
+// existing media manageable.
+export class StorageService {
+  // Driver new uploads are stored with
+  static get driver(): StorageDriver {
+    const driver = drivers[config.storage.driver as StorageDriverName];
+
+    if (!driver) {
+      throw new Error(`Unknown storage driver: ${config.storage.driver}`);
+    }
+
+    return driver;
+  }
+
+  // Store a file as a single object. Images lose their metadata, which
+  // may include where they were taken.
+  static async store(data: Buffer, options: StoreOptions): Promise<StoredFile> {
+    const content = await ImageProcessingService.strip(
+      data,
+      options.contentType
+    );
+
+    return StorageService.driver.store(content, options);
+  }
+
+  // Store an image as a set of variants at several widths and formats,
+  // with a blurred placeholder. The transform width caps the largest
+  // variant. If any variant fails, those already stored are removed.
+  static async storeImage(
+    data: Buffer,
+    options: StoreOptions
+  ): Promise<StoredImage> {
+    const image = await ImageProcessingService.process(
+      data,
+      options.contentType,
+      options.transform?.width
+    );
+    const name = options.name ?? crypto.randomUUID();
+    const format = ImageProcessingService.formatOf(options.contentType);
+    const variants: ImageVariant[] = [];
+    const keys: string[] = [];
+    let bytes = 0;
+
+    try {
+      for (const rendition of image.renditions) {
+        const stored = await StorageService.driver.store(rendition.data, {
+          folder: options.folder,
+          name: `${name}_${rendition.width}_${rendition.format}`,
+          contentType: IMAGE_CONTENT_TYPES[rendition.format],
+          originalName: options.originalName,
+        });
+
+        variants.push({
+          url: stored.url,
+          width: rendition.width,
+          height: rendition.height,
+          format: rendition.format,
+        });
+        keys.push(stored.key);
+        bytes += stored.bytes;
+      }
+    } catch (error) {
+      for (const variant of variants) {
+        await StorageService.delete(variant.url);
+      }
+      throw error;
+    }
+
+    // Renditions are smallest first
+    const fallback = variants.filter((variant) => variant.format === format);
+    const largest = fallback[fallback.length - 1];
+
+    return {
+      key: keys[variants.indexOf(largest)],
+      url: largest.url,
+      width: largest.width,
+      height: largest.height,
+      placeholder: image.placeholder,
+      variants,
+      bytes,
+    };
+  }
+
+  // Remove a stored file by its URL. Files no driver owns, such as
+  // external URLs, are left alone.
+  static async delete(url: string | null | undefined): Promise<boolean> {
+    const owner = url ? StorageService.ownerOf(url) : undefined;
+    if (!url || !owner) return false;
+
+    try {
+      return await owner.delete(url);
+    } catch (error) {
+      logger.error(`Error deleting stored file ${url}:`, error);
+      return false;
+    }
+  }
+
+  // Poster frame for a stored video, if its driver can produce one
+  static posterUrl(url: string): string | null {
+    return StorageService.ownerOf(url)?.posterUrl(url) ?? null;
+  }
+
+  // Every driver, including ones no longer used for new uploads
+  static get drivers(): StorageDriver[] {
+    return Object.values(drivers);
+  }
+
+  // Driver and key of the stored file a URL points at, if any
+  static locate(
+    url: string
+  ): { driver: StorageDriverName; key: string } | null {
+    const owner = StorageService.ownerOf(url);
+    const key = owner?.keyOf(url);
+
+    return owner && key ? { driver: owner.name, key } : null;
+  }
+
+  private static ownerOf(url: string): StorageDriver | undefined {
+    return Object.values(drivers).find((driver) => driver.owns(url));
+  }
+}
+
+export default StorageService;
@@ -0,0 +1,341 @@
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import sharp from 'sharp';
+import { config } from '../../config/database';
+import logger from '../../utils/logger';
+import type {
+  StorageDriver,
+  StoreOptions,
+  StoredFile,
+  StoredObject,
+  StoredResourceType,
+} from '../../types/storage';
+
+// File extensions for the content types the app accepts
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+  'video/mp4': '.mp4',
+  'video/quicktime': '.mov',
+  'video/webm': '.webm',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/wav': '.wav',
+  'audio/ogg': '.ogg',
+  'audio/webm': '.webm',
+};
+
+const execFileAsync = promisify(execFile);
+
+// Content types stored in an MP4 or QuickTime container, whose header
+// gives their duration
+const MP4_TYPES = new Set(['video/mp4', 'video/quicktime', 'audio/mp4']);
+
+// Poster frames are stored next to their video, named after it
+const POSTER_SUFFIX = '.poster.jpg';
+
+// Longest ffmpeg may take over a video
+const FFMPEG_TIMEOUT_MS = 60000;
+
+// Stores files on local disk, served by the app under
+// `config.storage.localUrlPrefix`. Images are resized with sharp when a
+// transform is given; video and audio are kept as sent. Videos get their
+// duration and a poster frame from ffmpeg; without it, only MP4 and
+// QuickTime files have a duration, read from their header, and there is
+// no poster.
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+
+  async store(data: Buffer, options: StoreOptions): Promise<StoredFile> {
+    const resourceType = LocalStorageDriver.resourceTypeOf(options.contentType);
+    const extension =
+      EXTENSIONS[options.contentType] ??
+      path.extname(options.originalName || '').toLowerCase();
+    const filename = `${options.name ?? crypto.randomUUID()}${extension}`;
+    const key = path.posix.join(options.folder, filename);
+
+    let output = data;
+    let width: number | null = null;
+    let height: number | null = null;
+
+    if (resourceType === 'image') {
+      const image = await LocalStorageDriver.processImage(data, options);
+      output = image.data;
+      width = image.width;
+      height = image.height;
+    }
+
+    const filepath = LocalStorageDriver.resolve(key);
+    await fs.mkdir(path.dirname(filepath), { recursive: true });
+    await fs.writeFile(filepath, output);
+
+    const probed =
+      resourceType === 'video'
+        ? await LocalStorageDriver.processVideo(key)
+        : null;
+
+    return {
+      key,
+      url: `${config.storage.localUrlPrefix}/${key}`,
+      resourceType,
+      width,
+      height,
+      duration:
+        probed ??
+        (MP4_TYPES.has(options.contentType)
+          ? LocalStorageDriver.mp4Duration(data)
+          : null),
+      bytes: output.length,
+    };
+  }
+
+  owns(url: string): boolean {
+    return url.startsWith(`${config.storage.localUrlPrefix}/`);
+  }
+
+  async delete(url: string): Promise<boolean> {
+    const key = this.keyOf(url);
+    if (!key) return false;
+
+    try {
+      await fs.unlink(LocalStorageDriver.resolve(key));
+      await fs.rm(
+        LocalStorageDriver.resolve(LocalStorageDriver.posterKey(key)),
+        {
+          force: true,
+        }
+      );
+      return true;
+    } catch (error) {
+      logger.error(`Error deleting local file ${key}:`, error);
+      return false;
+    }
+  }
+
+  // The poster frame ffmpeg took of a stored video, if it took one
+  posterUrl(url: string): string | null {
+    const key = this.keyOf(url);
+    if (!key) return null;
+
+    const posterKey = LocalStorageDriver.posterKey(key);
+
+    return existsSync(LocalStorageDriver.resolve(posterKey))
+      ? `${config.storage.localUrlPrefix}/${posterKey}`
+      : null;
+  }
+
+  keyOf(url: string): string | null {
+    return this.owns(url)
+      ? url.slice(config.storage.localUrlPrefix.length + 1)
+      : null;
+  }
+
+  async *list(): AsyncIterable<StoredObject> {
+    yield* LocalStorageDriver.walk(path.resolve(config.storage.localDir), '');
+  }
+
+  // Take the first frame of a stored video as its poster, scaled down to
+  // post width, and read the video's length while at it. Returns the
+  // length in seconds, or null if ffmpeg could not tell.
+  private static async processVideo(key: string): Promise<number | null> {
+    const filepath = LocalStorageDriver.resolve(key);
+    let output: string;
+
+    try {
+      const { stderr } = await execFileAsync(
+        config.storage.ffmpegPath,
+        [
+          '-hide_banner',
+          '-y',
+          '-i',
+          filepath,
+          '-frames:v',
+          '1',
+          '-vf',
+          "scale='min(1080,iw)':-2",
+          '-q:v',
+          '3',
+          LocalStorageDriver.resolve(LocalStorageDriver.posterKey(key)),
+        ],
+        { timeout: FFMPEG_TIMEOUT_MS }
+      );
+      output = stderr;
+    } catch (error) {
+      const { code, stderr } = error as NodeJS.ErrnoException & {
+        stderr?: string;
+      };
+
+      if (code === 'ENOENT') {
+        logger.warn(
+          `ffmpeg not found at ${config.storage.ffmpegPath}; videos get no poster frame`
+        );
+        return null;
+      }
+
+      // The length may still have been read before the frame failed
+      logger.warn(`ffmpeg could not process ${key}:`, error);
+      output = stderr ?? '';
+    }
+
+    const match = /Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/.exec(output);
+    if (!match) return null;
+
+    const [, hours, minutes, seconds] = match;
+    return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  }
+
+  // Key of the poster frame of the video stored under a key
+  private static posterKey(key: string): string {
+    return `${key.slice(0, key.length - path.posix.extname(key).length)}${POSTER_SUFFIX}`;
+  }
+
+  // Seconds from the movie header (`moov` > `mvhd`) of an MP4 or
+  // QuickTime file, or null if it has none that can be read
+  private static mp4Duration(data: Buffer): number | null {
+    const findBox = (type: string, start: number, end: number) => {
+      let offset = start;
+
+      while (offset + 8 <= end) {
+        let size = data.readUInt32BE(offset);
+        let header = 8;
+
+        if (size === 1) {
+          if (offset + 16 > end) return null;
+          size = Number(data.readBigUInt64BE(offset + 8));
+          header = 16;
+        } else if (size === 0) {
+          size = end - offset;
+        }
+        if (size < header || offset + size > end) return null;
+
+        if (data.toString('latin1', offset + 4, offset + 8) === type) {
+          return { start: offset + header, end: offset + size };
+        }
+        offset += size;
+      }
+
+      return null;
+    };
+
+    const moov = findBox('moov', 0, data.length);
+    const mvhd = moov && findBox('mvhd', moov.start, moov.end);
+    if (!mvhd) return null;
+
+    // Version 1 headers use 64-bit times and duration
+    const version = data[mvhd.start];
+    const fields = mvhd.start + 4 + (version === 1 ? 16 : 8);
+    if (fields + (version === 1 ? 12 : 8) > mvhd.end) return null;
+
+    const timescale = data.readUInt32BE(fields);
+    const duration =
+      version === 1
+        ? Number(data.readBigUInt64BE(fields + 4))
+        : data.readUInt32BE(fields + 4);
+
+    // Fragmented files leave the duration at zero, or all ones, and give
+    // it per fragment instead
+    if (timescale === 0 || duration === 0 || duration === 0xffffffff) {
+      return null;
+    }
+
+    return duration / timescale;
+  }
+
+  // Apply an image's transform, if any, and read its size. Animated GIFs
+  // keep their frames.
+  private static async processImage(data: Buffer, options: StoreOptions) {
+    const { transform } = options;
+    const image = sharp(data, {
+      animated: options.contentType === 'image/gif',
+    });
+
+    if (!transform) {
+      const metadata = await image.metadata();
+      return {
+        data,
+        width: metadata.width ?? null,
+        height: metadata.pageHeight ?? metadata.height ?? null,
+      };
+    }
+
+    image.resize({
+      width: transform.width,
+      height:
+        transform.fit === 'cover'
+          ? (transform.height ?? transform.width)
+          : transform.height,
+      fit: transform.fit,
+      withoutEnlargement: transform.fit === 'inside',
+    });
+
+    const { data: output, info } = await image.toBuffer({
+      resolveWithObject: true,
+    });
+
+    return {
+      data: output,
+      width: info.width,
+      height: info.pageHeight ?? info.height,
+    };
+  }
+
+  // Files under a directory of the storage root, with keys relative to it
+  private static async *walk(
+    root: string,
+    folder: string
+  ): AsyncIterable<StoredObject> {
+    let entries;
+
+    try {
+      entries = await fs.readdir(path.join(root, folder), {
+        withFileTypes: true,
+      });
+    } catch (error) {
+      // Nothing stored yet
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const key = path.posix.join(folder, entry.name);
+
+      if (entry.isDirectory()) {
+        yield* LocalStorageDriver.walk(root, key);
+      } else if (entry.isFile() && !entry.name.endsWith(POSTER_SUFFIX)) {
+        // Poster frames go with their video, so are not listed
+        const stats = await fs.stat(path.join(root, key));
+
+        yield {
+          key,
+          url: `${config.storage.localUrlPrefix}/${key}`,
+          bytes: stats.size,
+          createdAt: stats.mtime,
+        };
+      }
+    }
+  }
+
+  private static resourceTypeOf(contentType: string): StoredResourceType {
+    if (contentType.startsWith('image/')) return 'image';
+    if (contentType.startsWith('video/')) return 'video';
+    return 'raw';
+  }
+
+  // Absolute path of a key, refusing keys that leave the storage root
+  private static resolve(key: string): string {
+    const root = path.resolve(config.storage.localDir);
+    const filepath = path.resolve(root, key);
+
+    if (!filepath.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filepath;
+  }
+}
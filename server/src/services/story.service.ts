@@ -0,0 +1,245 @@
+import { MediaType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { socketHelpers } from '../config/socket';
+import logger from '../utils/logger';
+import { ValidationError } from '../middleware/errorHandler';
+import { NotificationService } from './notification.service';
+import { MediaAssetService } from './media-asset.service';
+import type { StoryReplyPreview } from '../types';
+import type {
+  StoryExpiredResponse,
+  StoryScreenshotResponse,
+} from '../types/story';
+
+// Stories archived per sweeper batch
+const EXPIRY_BATCH_SIZE = 500;
+
+// Shown in place of a replied-to story once it is gone
+export const STORY_UNAVAILABLE_PLACEHOLDER = 'Story unavailable';
+
+// Story fields sent with story reply messages
+export const storyReplySelect = {
+  id: true,
+  userId: true,
+  mediaUrl: true,
+  mediaType: true,
+  text: true,
+  expiresAt: true,
+} as const;
+
+// Stored media a story can be created with
+export interface StoredStoryMedia {
+  url: string;
+  type: MediaType;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  // Set when this call stored the file, rather than reusing a copy
+  created?: boolean;
+}
+
+interface StoryReplySource {
+  storyId: string | null;
+  story: Prisma.StoryGetPayload<{ select: typeof storyReplySelect }> | null;
+}
+
+export class StoryService {
+  // Emit a story event. Socket failures never fail the caller.
+  private static emit(send: () => void, event: string) {
+    try {
+      send();
+    } catch (error) {
+      logger.warn(`Failed to emit ${event}:`, error);
+    }
+  }
+
+  // Store story media, fitting images to a full-screen story frame
+  static async storeMedia(
+    data: Buffer,
+    file: { contentType: string; fileName?: string }
+  ): Promise<StoredStoryMedia> {
+    const isImage = file.contentType.startsWith('image/');
+
+    if (!isImage && !file.contentType.startsWith('video/')) {
+      throw new ValidationError('Story media must be an image or a video');
+    }
+
+    const stored = await MediaAssetService.store(data, {
+      folder: 'stories',
+      contentType: file.contentType,
+      originalName: file.fileName,
+      ...(isImage
+        ? { transform: { width: 1080, height: 1920, fit: 'inside' as const } }
+        : {}),
+    });
+
+    return {
+      url: stored.url,
+      type: isImage ? MediaType.IMAGE : MediaType.VIDEO,
+      width: stored.width,
+      height: stored.height,
+      duration: stored.duration,
+      created: stored.created,
+    };
+  }
+
+  // Move stories past their expiry into their owners' archives and tell
+  // the owner and anyone who has the story open. Returns how many stories
+  // were archived.
+  static async expireStories(now: Date = new Date()): Promise<number> {
+    let archived = 0;
+
+    for (;;) {
+      const stories = await prisma.story.findMany({
+        where: {
+          expiresAt: { lte: now },
+          archivedAt: null,
+        },
+        select: { id: true, userId: true },
+        orderBy: { expiresAt: 'asc' },
+        take: EXPIRY_BATCH_SIZE,
+      });
+
+      if (stories.length === 0) break;
+
+      await prisma.story.updateMany({
+        where: {
+          id: { in: stories.map((story) => story.id) },
+          archivedAt: null,
+        },
+        data: { archivedAt: now },
+      });
+
+      for (const story of stories) {
+        const expiredResponse: StoryExpiredResponse = {
+          storyId: story.id,
+          timestamp: now.getTime(),
+        };
+
+        StoryService.emit(
+          () =>
+            socketHelpers.sendToUser(
+              story.userId,
+              'story:expired',
+              expiredResponse
+            ),
+          'story:expired'
+        );
+        StoryService.emit(
+          () =>
+            socketHelpers.sendToStory(
+              story.id,
+              'story:expired',
+              expiredResponse
+            ),
+          'story:expired'
+        );
+      }
+
+      archived += stories.length;
+      if (stories.length < EXPIRY_BATCH_SIZE) break;
+    }
+
+    return archived;
+  }
+
+  // Record a screenshot a viewer took of a story they have viewed. Only
+  // live stories count, and the owner is notified the first time each
+  // viewer takes one. Returns null when nothing was recorded.
+  static async recordScreenshot(
+    storyId: string,
+    viewer: { id: string; username: string },
+    now: Date = new Date()
+  ): Promise<StoryScreenshotResponse | null> {
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { id: true, userId: true, expiresAt: true },
+    });
+
+    if (!story || story.userId === viewer.id || story.expiresAt <= now) {
+      return null;
+    }
+
+    const view = await prisma.storyView.findUnique({
+      where: { storyId_userId: { storyId, userId: viewer.id } },
+      select: { id: true },
+    });
+
+    if (!view) return null;
+
+    // Every screenshot is kept as its own event; the counter on the view
+    // only summarises them for the viewers list
+    const [, updated] = await prisma.$transaction([
+      prisma.storyScreenshot.create({
+        data: { storyId, userId: viewer.id, createdAt: now },
+      }),
+      prisma.storyView.update({
+        where: { id: view.id },
+        data: {
+          screenshotCount: { increment: 1 },
+          lastScreenshotAt: now,
+        },
+        select: { screenshotCount: true },
+      }),
+    ]);
+
+    if (updated.screenshotCount === 1) {
+      await NotificationService.create({
+        senderId: viewer.id,
+        receiverId: story.userId,
+        type: 'STORY_SCREENSHOT',
+        title: 'Story screenshot',
+        content: `${viewer.username} took a screenshot of your story`,
+        data: { storyId },
+      });
+    }
+
+    const screenshotResponse: StoryScreenshotResponse = {
+      storyId,
+      takenBy: viewer.id,
+      screenshotCount: updated.screenshotCount,
+      timestamp: now.getTime(),
+    };
+
+    StoryService.emit(
+      () =>
+        socketHelpers.sendToUser(
+          story.userId,
+          'story:screenshot_taken',
+          screenshotResponse
+        ),
+      'story:screenshot_taken'
+    );
+
+    return screenshotResponse;
+  }
+
+  // Preview of the story a reply message refers to, or a placeholder once
+  // the story has expired or been deleted
+  static formatStoryReply(
+    message: StoryReplySource,
+    now: Date = new Date()
+  ): StoryReplyPreview {
+    const { story } = message;
+
+    if (!story || story.expiresAt <= now) {
+      return {
+        storyId: message.storyId,
+        isAvailable: false,
+        placeholder: STORY_UNAVAILABLE_PLACEHOLDER,
+      };
+    }
+
+    return {
+      storyId: story.id,
+      isAvailable: true,
+      userId: story.userId,
+      mediaUrl: story.mediaUrl,
+      mediaType: story.mediaType,
+      text: story.text,
+      expiresAt: story.expiresAt,
+    };
+  }
+}
+
+export default StoryService;
@@ -0,0 +1,577 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { MultipartFile } from '@fastify/multipart';
+import {
+  MediaType,
+  Prisma,
+  Upload,
+  UploadPurpose,
+  UploadStatus,
+} from '@prisma/client';
+import { prisma, config } from '../config/database';
+import logger from '../utils/logger';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import {
+  PostMediaService,
+  POST_MEDIA_TYPES,
+  MAX_POST_MEDIA_SIZE,
+  UploadedPostMedia,
+} from './post-media.service';
+import { StoryService } from './story.service';
+import { StorageService } from './storage';
+import { MediaAssetService } from './media-asset.service';
+import { StorageQuotaService } from './storage-quota.service';
+import type { ImageVariant } from '../types/storage';
+import type { UploadedMediaResponse } from '../types/upload';
+
+// Largest chunk accepted; socket.io drops messages over 1MB by default
+export const MAX_UPLOAD_CHUNK_SIZE = 512 * 1024; // 512KB
+
+// Smallest chunk accepted, unless the whole file is smaller
+export const MIN_UPLOAD_CHUNK_SIZE = 64 * 1024; // 64KB
+
+// Largest file and accepted content types for each purpose
+const UPLOAD_LIMITS: Record<
+  UploadPurpose,
+  { maxSize: number; accepts: (contentType: string) => boolean }
+> = {
+  POST: {
+    maxSize: MAX_POST_MEDIA_SIZE,
+    accepts: (contentType) => contentType in POST_MEDIA_TYPES,
+  },
+  STORY: {
+    maxSize: 30 * 1024 * 1024, // 30MB
+    accepts: (contentType) => /^(image|video)\//.test(contentType),
+  },
+  MESSAGE: {
+    maxSize: 50 * 1024 * 1024, // 50MB
+    accepts: (contentType) => /^(image|video|audio)\//.test(contentType),
+  },
+};
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/;
+
+export interface StartUploadInput {
+  purpose: UploadPurpose;
+  fileName: string;
+  contentType: string;
+  size: number;
+  chunkSize: number;
+  sha256: string;
+}
+
+// Resumable uploads sent in chunks. Chunks are kept on disk under
+// `config.upload.chunkDir` until every one has arrived, so a client can
+// reconnect, ask which chunks are missing and carry on. The assembled
+// file goes through the same media pipeline as a direct upload, and the
+// upload's ID then serves as a media ID for a post, story or message.
+export class UploadService {
+  static async start(userId: string, input: StartUploadInput): Promise<Upload> {
+    const limits = UPLOAD_LIMITS[input.purpose];
+    const sha256 = String(input.sha256 || '').toLowerCase();
+
+    if (!limits) {
+      throw new ValidationError('Unknown upload purpose');
+    }
+    if (!input.fileName || !limits.accepts(input.contentType)) {
+      throw new ValidationError(
+        `File type ${input.contentType} cannot be uploaded for a ${input.purpose.toLowerCase()}`
+      );
+    }
+    if (
+      !Number.isInteger(input.size) ||
+      input.size <= 0 ||
+      input.size > limits.maxSize
+    ) {
+      throw new ValidationError(
+        `File size must be between 1 byte and ${limits.maxSize / 1024 / 1024}MB`
+      );
+    }
+    if (
+      !Number.isInteger(input.chunkSize) ||
+      input.chunkSize > MAX_UPLOAD_CHUNK_SIZE ||
+      input.chunkSize < Math.min(MIN_UPLOAD_CHUNK_SIZE, input.size)
+    ) {
+      throw new ValidationError(
+        `Chunk size must be between ${MIN_UPLOAD_CHUNK_SIZE} and ${MAX_UPLOAD_CHUNK_SIZE} bytes`
+      );
+    }
+    if (!SHA256_PATTERN.test(sha256)) {
+      throw new ValidationError('File hash must be a hex encoded SHA-256');
+    }
+
+    // The whole file counts against the quota while it is being sent
+    await StorageQuotaService.assertAvailable(userId, input.size);
+
+    return prisma.upload.create({
+      data: {
+        userId,
+        purpose: input.purpose,
+        fileName: input.fileName,
+        contentType: input.contentType,
+        size: input.size,
+        chunkSize: input.chunkSize,
+        totalChunks: Math.ceil(input.size / input.chunkSize),
+        sha256,
+        expiresAt: new Date(Date.now() + config.upload.chunkedUploadTtlMs),
+      },
+    });
+  }
+
+  // An upload of the user's, if it exists
+  static async find(id: string, userId: string): Promise<Upload | null> {
+    return prisma.upload.findFirst({ where: { id, userId } });
+  }
+
+  // Check a chunk against its hash and keep it. Sending a chunk again
+  // replaces it. Returns how many chunks have arrived.
+  static async saveChunk(
+    upload: Upload,
+    index: number,
+    data: Buffer,
+    sha256: string
+  ): Promise<number> {
+    if (upload.status !== UploadStatus.PENDING) {
+      throw new ValidationError('Upload is no longer accepting chunks');
+    }
+    if (!Number.isInteger(index) || index < 0 || index >= upload.totalChunks) {
+      throw new ValidationError('Chunk index out of range');
+    }
+    if (!Buffer.isBuffer(data)) {
+      throw new ValidationError('Chunk data must be binary');
+    }
+
+    // Every chunk is full size except possibly the last
+    const expectedSize =
+      index === upload.totalChunks - 1
+        ? upload.size - upload.chunkSize * (upload.totalChunks - 1)
+        : upload.chunkSize;
+
+    if (data.length !== expectedSize) {
+      throw new ValidationError(
+        `Chunk ${index} must be ${expectedSize} bytes, got ${data.length}`
+      );
+    }
+    if (UploadService.hash(data) !== String(sha256 || '').toLowerCase()) {
+      throw new ValidationError(`Chunk ${index} does not match its hash`);
+    }
+
+    // Write under a temporary name first, so a partly written chunk never
+    // counts as received
+    const chunkPath = UploadService.chunkPath(upload.id, index);
+    await fs.mkdir(path.dirname(chunkPath), { recursive: true });
+    await fs.writeFile(`${chunkPath}.tmp`, data);
+    await fs.rename(`${chunkPath}.tmp`, chunkPath);
+
+    return (
+      upload.totalChunks - (await UploadService.missingChunks(upload)).length
+    );
+  }
+
+  // Indexes of chunks not received yet
+  static async missingChunks(upload: Upload): Promise<number[]> {
+    if (upload.status !== UploadStatus.PENDING) return [];
+
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(UploadService.chunkDir(upload.id));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    const received = new Set(
+      files
+        .filter((file) => file.endsWith('.part'))
+        .map((file) => Number.parseInt(file, 10))
+    );
+
+    return Array.from(
+      { length: upload.totalChunks },
+      (_, index) => index
+    ).filter((index) => !received.has(index));
+  }
+
+  // Assemble the chunks, check the whole file against its hash and store
+  // it through the media pipeline. A file that fails the hash or the
+  // pipeline marks the upload as failed; it has to be started again.
+  static async complete(upload: Upload): Promise<Upload> {
+    if (upload.status !== UploadStatus.PENDING) {
+      throw new ValidationError(
+        `Upload is already ${upload.status.toLowerCase()}`
+      );
+    }
+
+    const missing = await UploadService.missingChunks(upload);
+    if (missing.length > 0) {
+      throw new ValidationError(`Missing chunks: ${missing.join(', ')}`);
+    }
+
+    // Only one completion may run at a time
+    const { count } = await prisma.upload.updateMany({
+      where: { id: upload.id, status: UploadStatus.PENDING },
+      data: { status: UploadStatus.PROCESSING },
+    });
+    if (count === 0) {
+      throw new ValidationError('Upload is already being processed');
+    }
+
+    try {
+      const data = await UploadService.assemble(upload);
+
+      if (UploadService.hash(data) !== upload.sha256) {
+        throw new ValidationError('File does not match its hash');
+      }
+
+      const media = await UploadService.process(upload, data);
+
+      return await prisma.upload.update({
+        where: { id: upload.id },
+        data: {
+          status: UploadStatus.COMPLETED,
+          ...UploadService.mediaData(media),
+        },
+      });
+    } catch (error) {
+      await prisma.upload.update({
+        where: { id: upload.id },
+        data: {
+          status: UploadStatus.FAILED,
+          error:
+            error instanceof ValidationError
+              ? error.message
+              : 'Failed to process file',
+        },
+      });
+      throw error;
+    } finally {
+      await UploadService.removeChunks(upload.id);
+    }
+  }
+
+  // Store media sent in a single request as a completed upload, so it is
+  // held for the user like a chunked upload until a post, story or
+  // message claims it or it expires
+  static async storeDirect(
+    file: MultipartFile,
+    userId: string,
+    purpose: UploadPurpose = UploadPurpose.POST
+  ): Promise<Upload> {
+    const data = await UploadService.read(file, purpose);
+    await StorageQuotaService.assertAvailable(userId, data.length);
+
+    const media = await UploadService.process(
+      {
+        purpose,
+        userId,
+        contentType: file.mimetype,
+        fileName: file.filename,
+      },
+      data
+    );
+
+    try {
+      return await prisma.upload.create({
+        data: {
+          userId,
+          purpose,
+          fileName: file.filename,
+          contentType: file.mimetype,
+          size: data.length,
+          chunkSize: data.length,
+          totalChunks: 1,
+          sha256: UploadService.hash(data),
+          status: UploadStatus.COMPLETED,
+          ...UploadService.mediaData(media),
+          expiresAt: new Date(Date.now() + config.upload.chunkedUploadTtlMs),
+        },
+      });
+    } catch (error) {
+      await PostMediaService.discard([media]);
+      throw error;
+    }
+  }
+
+  // Drop an upload with its chunks and, if no post, story or message
+  // has taken it, its stored media
+  static async cancel(upload: Upload): Promise<void> {
+    if (upload.claimedAt) {
+      throw new ValidationError('Media is already in use');
+    }
+
+    await prisma.upload.delete({ where: { id: upload.id } });
+    await UploadService.removeChunks(upload.id);
+    await MediaAssetService.discard([upload.url]);
+  }
+
+  // Remove uploads past their expiry along with their chunks and, unless
+  // something took it, their media. Chunk folders left without an upload
+  // go once they are as old. Returns how many uploads expired; a dry run
+  // only counts them.
+  static async expire(dryRun = false): Promise<number> {
+    const now = new Date();
+    const expired = await prisma.upload.findMany({
+      where: {
+        expiresAt: { lt: now },
+        status: { not: UploadStatus.PROCESSING },
+      },
+    });
+
+    if (!dryRun) {
+      for (const upload of expired) {
+        // Skip uploads claimed or being completed meanwhile
+        const { count } = await prisma.upload.deleteMany({
+          where: {
+            id: upload.id,
+            status: { not: UploadStatus.PROCESSING },
+            claimedAt: upload.claimedAt,
+          },
+        });
+        if (count === 0) continue;
+
+        await UploadService.removeChunks(upload.id);
+        if (!upload.claimedAt) await MediaAssetService.discard([upload.url]);
+      }
+
+      await UploadService.removeStrayChunks(
+        new Date(now.getTime() - config.upload.chunkedUploadTtlMs)
+      );
+    }
+
+    return expired.length;
+  }
+
+  // Take completed uploads of the user's as media, in the order given.
+  // Each upload can be taken once; run inside the transaction that
+  // creates what uses the media, so a failure releases them again.
+  static async claim(
+    client: Prisma.TransactionClient,
+    ids: string[],
+    userId: string,
+    purpose: UploadPurpose
+  ): Promise<Upload[]> {
+    if (ids.length === 0) return [];
+
+    const { count } = await client.upload.updateMany({
+      where: {
+        id: { in: ids },
+        userId,
+        purpose,
+        status: UploadStatus.COMPLETED,
+        claimedAt: null,
+      },
+      data: { claimedAt: new Date() },
+    });
+
+    if (count !== ids.length || new Set(ids).size !== ids.length) {
+      throw new NotFoundError('Media');
+    }
+
+    const uploads = await client.upload.findMany({
+      where: { id: { in: ids } },
+    });
+
+    return ids.map((id) => uploads.find((upload) => upload.id === id)!);
+  }
+
+  // Take a completed upload of the user's as media by its URL, the way
+  // `claim` takes it by ID
+  static async claimUrl(
+    client: Prisma.TransactionClient,
+    url: string,
+    userId: string,
+    purpose: UploadPurpose
+  ): Promise<Upload> {
+    const upload = await client.upload.findFirst({
+      where: {
+        url,
+        userId,
+        purpose,
+        status: UploadStatus.COMPLETED,
+        claimedAt: null,
+      },
+      select: { id: true },
+    });
+    if (!upload) throw new NotFoundError('Media');
+
+    const [claimed] = await UploadService.claim(
+      client,
+      [upload.id],
+      userId,
+      purpose
+    );
+
+    return claimed;
+  }
+
+  // A claimed upload as post media
+  static toPostMedia(upload: Upload): UploadedPostMedia {
+    return {
+      url: upload.url!,
+      type: upload.mediaType!,
+      width: upload.width,
+      height: upload.height,
+      duration: upload.duration,
+      posterUrl: upload.posterUrl,
+      variants: upload.variants as unknown as ImageVariant[] | null,
+      placeholder: upload.placeholder,
+      bytes: upload.size,
+    };
+  }
+
+  static formatMedia(upload: Upload): UploadedMediaResponse | undefined {
+    if (upload.status !== UploadStatus.COMPLETED) return undefined;
+
+    return { mediaId: upload.id, ...UploadService.toPostMedia(upload) };
+  }
+
+  // Columns of an upload describing its stored media
+  private static mediaData(media: UploadedPostMedia) {
+    return {
+      url: media.url,
+      mediaType: media.type,
+      width: media.width,
+      height: media.height,
+      duration: media.duration,
+      posterUrl: media.posterUrl,
+      variants: PostMediaService.toJson(media.variants),
+      placeholder: media.placeholder,
+    };
+  }
+
+  // Read a file sent in a single request, within its purpose's limits
+  private static async read(
+    file: MultipartFile,
+    purpose: UploadPurpose
+  ): Promise<Buffer> {
+    if (purpose === UploadPurpose.POST) return PostMediaService.read(file);
+
+    const limits = UPLOAD_LIMITS[purpose];
+    if (!limits.accepts(file.mimetype)) {
+      throw new ValidationError(
+        `File type ${file.mimetype} cannot be uploaded for a ${purpose.toLowerCase()}`
+      );
+    }
+
+    const data = await file.toBuffer();
+    if (data.length > limits.maxSize) {
+      throw new ValidationError(
+        `File size exceeds limit of ${limits.maxSize / 1024 / 1024}MB`
+      );
+    }
+
+    return data;
+  }
+
+  // Store an assembled file the way its purpose stores direct uploads
+  private static async process(
+    upload: Pick<Upload, 'purpose' | 'userId' | 'contentType' | 'fileName'>,
+    data: Buffer
+  ): Promise<UploadedPostMedia> {
+    const file = { contentType: upload.contentType, fileName: upload.fileName };
+
+    if (upload.purpose === UploadPurpose.POST) {
+      return PostMediaService.storeData(data, file, upload.userId);
+    }
+
+    const media =
+      upload.purpose === UploadPurpose.STORY
+        ? await StoryService.storeMedia(data, file)
+        : await UploadService.storeMessageMedia(data, file);
+
+    return {
+      ...media,
+      posterUrl:
+        media.type === MediaType.VIDEO
+          ? StorageService.posterUrl(media.url)
+          : null,
+      variants: null,
+      placeholder: null,
+      bytes: data.length,
+    };
+  }
+
+  private static async storeMessageMedia(
+    data: Buffer,
+    file: { contentType: string; fileName: string }
+  ) {
+    const type = file.contentType.startsWith('image/')
+      ? MediaType.IMAGE
+      : file.contentType.startsWith('video/')
+        ? MediaType.VIDEO
+        : MediaType.AUDIO;
+    const folder = { IMAGE: 'images', VIDEO: 'videos', AUDIO: 'audio' }[type];
+
+    const stored = await MediaAssetService.store(data, {
+      folder: `messages/${folder}`,
+      contentType: file.contentType,
+      originalName: file.fileName,
+    });
+
+    return {
+      url: stored.url,
+      type,
+      width: stored.width,
+      height: stored.height,
+      duration: stored.duration,
+      created: stored.created,
+    };
+  }
+
+  private static async assemble(upload: Upload): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+
+    for (let index = 0; index < upload.totalChunks; index++) {
+      chunks.push(await fs.readFile(UploadService.chunkPath(upload.id, index)));
+    }
+
+    return Buffer.concat(chunks);
+  }
+
+  private static async removeChunks(id: string) {
+    try {
+      await fs.rm(UploadService.chunkDir(id), { recursive: true, force: true });
+    } catch (error) {
+      logger.warn(`Failed to remove chunks of upload ${id}:`, error);
+    }
+  }
+
+  // Chunk folders of uploads that no longer exist, last written before
+  // the cutoff
+  private static async removeStrayChunks(before: Date) {
+    let ids: string[];
+
+    try {
+      ids = await fs.readdir(config.upload.chunkDir);
+    } catch {
+      return;
+    }
+
+    const uploads = await prisma.upload.findMany({
+      where: { id: { in: ids } },
+      select: { id: true },
+    });
+    const known = new Set(uploads.map((upload) => upload.id));
+
+    for (const id of ids) {
+      if (known.has(id)) continue;
+
+      const stats = await fs.stat(UploadService.chunkDir(id)).catch(() => null);
+      if (stats && stats.mtime < before) await UploadService.removeChunks(id);
+    }
+  }
+
+  private static hash(data: Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+  }
+
+  private static chunkDir(id: string): string {
+    return path.join(config.upload.chunkDir, id);
+  }
+
+  private static chunkPath(id: string, index: number): string {
+    return path.join(UploadService.chunkDir(id), `${index}.part`);
+  }
+}
+
+export default UploadService;
@@ -0,0 +1,92 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { BlockService } from './block.service';
+
+export interface ContentOwner {
+  id: string;
+  isPrivate: boolean;
+}
+
+export class VisibilityService {
+  // Can viewer V see owner O's content? Owners always see their own
+  // content, users who blocked each other never see each other's,
+  // public accounts are visible to everyone, and private accounts only
+  // to their followers. Anonymous viewers only see public accounts.
+  static async canView(
+    viewerId: string | null | undefined,
+    owner: ContentOwner | string
+  ): Promise<boolean> {
+    const resolved =
+      typeof owner === 'string'
+        ? await prisma.user.findUnique({
+            where: { id: owner },
+            select: { id: true, isPrivate: true },
+          })
+        : owner;
+
+    if (!resolved) return false;
+    if (viewerId && viewerId === resolved.id) return true;
+    if (!viewerId) return !resolved.isPrivate;
+    if (await BlockService.isBlocked(viewerId, resolved.id)) return false;
+    if (!resolved.isPrivate) return true;
+
+    const follow = await prisma.follow.findUnique({
+      where: {
+        followerId_followingId: {
+          followerId: viewerId,
+          followingId: resolved.id,
+        },
+      },
+      select: { id: true },
+    });
+
+    return !!follow;
+  }
+
+  // Which of the given users can see owner O's content
+  static async filterViewers(
+    owner: ContentOwner,
+    viewerIds: string[]
+  ): Promise<string[]> {
+    const blockedIds = await BlockService.getBlockedUserIds(owner.id);
+    const candidates = viewerIds.filter(
+      (viewerId) => !blockedIds.includes(viewerId)
+    );
+
+    if (!owner.isPrivate) return candidates;
+
+    const follows = await prisma.follow.findMany({
+      where: {
+        followingId: owner.id,
+        followerId: { in: candidates },
+      },
+      select: { followerId: true },
+    });
+    const followerIds = follows.map((follow) => follow.followerId);
+
+    return candidates.filter(
+      (viewerId) => viewerId === owner.id || followerIds.includes(viewerId)
+    );
+  }
+
+  // Filter for owners whose content the viewer can see, for use on the
+  // owning `user` relation of list queries
+  static visibleOwnersWhere(
+    viewerId: string | null | undefined
+  ): Prisma.UserWhereInput {
+    if (!viewerId) {
+      return { isPrivate: false };
+    }
+
+    return {
+      ...BlockService.notBlockedWhere(viewerId),
+      OR: [
+        { isPrivate: false },
+        { id: viewerId },
+        { followers: { some: { followerId: viewerId } } },
+      ],
+    };
+  }
+}
+
+export default VisibilityService;
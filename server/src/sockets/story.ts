@@ -1,15 +1,16 @@
 import { Socket } from 'socket.io';
 import logger from '../utils/logger';
 import { AuthenticatedSocket } from '../types/authSocket';
+import { prisma } from '../config/database';
+import { VisibilityService } from '../services/visibility.service';
+import { CloseFriendService } from '../services/close-friend.service';
+import { StoryService } from '../services/story.service';
 import {
   StoryViewData,
   StoryReactionData,
   StoryScreenshotData,
-  StoryCreatedData,
   StoryViewedResponse,
   StoryReactionResponse,
-  StoryScreenshotResponse,
-  StoryExpiredResponse,
   StoryReactionRemovedResponse,
   StoryReactionsResponse,
 } from '../types/story';
@@ -56,61 +57,71 @@ export const handleStory = (socket: AuthenticatedSocket) => {
     );
   });
 
-  // Screenshot story
-  socket.on('story:screenshot', (data: StoryScreenshotData) => {
+  // Screenshot story. The story owner is resolved on the server and the
+  // screenshot is only recorded for viewers of a live story.
+  socket.on('story:screenshot', async (data: StoryScreenshotData) => {
     if (!socket.userId) {
       socket.emit('error', { message: 'Not authenticated' });
       return;
     }
 
-    const screenshotResponse: StoryScreenshotResponse = {
-      storyId: data.storyId,
-      takenBy: socket.userId,
-      timestamp: data.timestamp,
-    };
-
-    // Notify story author
-    socket.to(data.authorId).emit('story:screenshot_taken', screenshotResponse);
-
-    logger.info(
-      `User ${socket.userId} took screenshot of story ${data.storyId}`
-    );
+    try {
+      const user = await prisma.user.findUnique({
+        where: { id: socket.userId },
+        select: { id: true, username: true },
+      });
+
+      const screenshot =
+        user && (await StoryService.recordScreenshot(data.storyId, user));
+
+      if (!screenshot) {
+        socket.emit('error', { message: 'Story not found' });
+        return;
+      }
+
+      logger.info(
+        `User ${socket.userId} took screenshot of story ${data.storyId}`
+      );
+    } catch (error) {
+      logger.error('Error recording story screenshot:', error);
+      socket.emit('error', { message: 'Failed to record screenshot' });
+    }
   });
 
-  // Story expiration check
-  const checkStoryExpiration = (
-    storyId: string,
-    authorId: string,
-    createdAt: number
-  ) => {
-    const EXPIRATION_TIME = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-    const timeLeft = createdAt + EXPIRATION_TIME - Date.now();
-
-    if (timeLeft <= 0) {
-      const expiredResponse: StoryExpiredResponse = {
-        storyId,
-        timestamp: Date.now(),
-      };
-
-      // Notify story author
-      socket.to(authorId).emit('story:expired', expiredResponse);
-
-      logger.info(`Story ${storyId} has expired`);
+  // Open a story so expiry is pushed while it is on screen
+  socket.on('story:open', async (data: { storyId: string }) => {
+    if (!socket.userId) {
+      socket.emit('error', { message: 'Not authenticated' });
       return;
     }
 
-    // Schedule next check
-    setTimeout(
-      () => {
-        checkStoryExpiration(storyId, authorId, createdAt);
-      },
-      Math.min(timeLeft, 60000)
-    ); // Check every minute or when time is up
-  };
-
-  // Start expiration check when story is created
-  socket.on('story:created', (data: StoryCreatedData) => {
-    checkStoryExpiration(data.storyId, data.authorId, data.createdAt);
+    try {
+      const story = await prisma.story.findUnique({
+        where: { id: data.storyId },
+        include: {
+          user: { select: { id: true, isPrivate: true } },
+        },
+      });
+
+      if (
+        !story ||
+        !(await VisibilityService.canView(socket.userId, story.user)) ||
+        !(await CloseFriendService.canViewStory(socket.userId, story))
+      ) {
+        socket.emit('error', { message: 'Story not found' });
+        return;
+      }
+
+      socket.join(`story:${data.storyId}`);
+    } catch (error) {
+      logger.error('Error opening story:', error);
+      socket.emit('error', { message: 'Failed to open story' });
+    }
+  });
+
+  // Close a story
+  socket.on('story:close', (data: { storyId: string }) => {
+    socket.leave(`story:${data.storyId}`);
   });
 
   // Remove story reaction
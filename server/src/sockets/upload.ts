@@ -1,207 +1,218 @@
-import { Socket } from 'socket.io';
 import logger from '../utils/logger';
 import { AuthenticatedSocket } from '../types/authSocket';
-
-interface UploadSession {
-  fileId: string;
-  totalChunks: number;
-  receivedChunks: number;
-  fileSize: number;
-  uploadedSize: number;
-  fileName: string;
-  fileType: string;
-  processingStatus?: 'pending' | 'processing' | 'completed' | 'failed';
-}
-
+import { StorageQuotaError, ValidationError } from '../middleware/errorHandler';
+import { UploadService } from '../services/upload.service';
+import {
+  UploadStartData,
+  UploadChunkData,
+  UploadFileData,
+  UploadStartedResponse,
+  UploadProgressResponse,
+  UploadStatusResponse,
+  UploadSuccessResponse,
+  UploadErrorResponse,
+} from '../types/upload';
+
+// Uploads are kept on the server rather than per socket, so a client that
+// reconnects can send `upload:resume` and carry on with the missing chunks
 export const handleUpload = (socket: AuthenticatedSocket) => {
-  // Store active upload sessions
-  const uploadSessions = new Map<string, UploadSession>();
+  // Validation and quota messages are meant for the client; anything
+  // else is not
+  const emitError = (
+    target: { fileId?: string; clientId?: string },
+    error: unknown,
+    fallback: string
+  ) => {
+    const response: UploadErrorResponse = {
+      ...target,
+      error:
+        error instanceof ValidationError || error instanceof StorageQuotaError
+          ? error.message
+          : fallback,
+      ...(error instanceof StorageQuotaError
+        ? { code: 'STORAGE_QUOTA_EXCEEDED' }
+        : {}),
+    };
+    socket.emit('upload:error', response);
+  };
+
+  // Find an upload of the socket's user, telling the client if there is none
+  const findUpload = async (fileId: string) => {
+    const upload = await UploadService.find(fileId, socket.userId!);
+
+    if (!upload) {
+      emitError({ fileId }, null, 'Upload session not found');
+    }
+
+    return upload;
+  };
 
   // Start upload
-  socket.on(
-    'upload:start',
-    (data: {
-      fileId: string;
-      fileName: string;
-      fileType: string;
-      fileSize: number;
-      totalChunks: number;
-    }) => {
-      if (!socket.userId) {
-        socket.emit('error', { message: 'Not authenticated' });
-        return;
-      }
+  socket.on('upload:start', async (data: UploadStartData) => {
+    if (!socket.userId) {
+      socket.emit('error', { message: 'Not authenticated' });
+      return;
+    }
 
-      // Initialize upload session
-      const session: UploadSession = {
-        fileId: data.fileId,
+    try {
+      const upload = await UploadService.start(socket.userId, {
+        purpose: data.purpose,
         fileName: data.fileName,
-        fileType: data.fileType,
-        fileSize: data.fileSize,
-        totalChunks: data.totalChunks,
-        receivedChunks: 0,
-        uploadedSize: 0,
-        processingStatus: 'pending',
-      };
+        contentType: data.fileType,
+        size: data.fileSize,
+        chunkSize: data.chunkSize,
+        sha256: data.sha256,
+      });
 
-      uploadSessions.set(data.fileId, session);
+      const response: UploadStartedResponse = {
+        clientId: data.clientId,
+        fileId: upload.id,
+        chunkSize: upload.chunkSize,
+        totalChunks: upload.totalChunks,
+        expiresAt: upload.expiresAt,
+      };
+      socket.emit('upload:started', response);
 
       logger.info(
-        `User ${socket.userId} started upload for file ${data.fileName}`
+        `User ${socket.userId} started upload ${upload.id} for file ${data.fileName}`
       );
+    } catch (error) {
+      if (
+        !(error instanceof ValidationError) &&
+        !(error instanceof StorageQuotaError)
+      ) {
+        logger.error(`Error starting upload for ${socket.userId}:`, error);
+      }
+      emitError({ clientId: data.clientId }, error, 'Failed to start upload');
     }
-  );
+  });
 
   // Handle chunk upload
-  socket.on(
-    'upload:chunk',
-    (data: {
-      fileId: string;
-      chunkIndex: number;
-      chunkData: Buffer;
-      isLastChunk: boolean;
-    }) => {
-      if (!socket.userId) {
-        socket.emit('error', { message: 'Not authenticated' });
-        return;
-      }
+  socket.on('upload:chunk', async (data: UploadChunkData) => {
+    if (!socket.userId) {
+      socket.emit('error', { message: 'Not authenticated' });
+      return;
+    }
 
-      const session = uploadSessions.get(data.fileId);
-      if (!session) {
-        socket.emit('upload:error', {
-          fileId: data.fileId,
-          error: 'Upload session not found',
-        });
-        return;
-      }
+    try {
+      const upload = await findUpload(data.fileId);
+      if (!upload) return;
 
-      try {
-        // Process chunk (in real implementation, save to disk/storage)
-        session.receivedChunks++;
-        session.uploadedSize += data.chunkData.length;
-
-        // Calculate and emit progress
-        const progress = (session.uploadedSize / session.fileSize) * 100;
-        socket.emit('upload:progress', {
-          fileId: data.fileId,
-          progress: Math.round(progress),
-          uploadedSize: session.uploadedSize,
-          totalSize: session.fileSize,
-        });
-
-        // If this is the last chunk, start processing
-        if (data.isLastChunk) {
-          session.processingStatus = 'processing';
-          socket.emit('upload:processing', {
-            fileId: data.fileId,
-            status: 'processing',
-            message: 'Processing your file...',
-          });
-
-          // Simulate processing (replace with actual processing logic)
-          setTimeout(() => {
-            session.processingStatus = 'completed';
-            socket.emit('upload:processing', {
-              fileId: data.fileId,
-              status: 'completed',
-              message: 'File processing completed',
-            });
-          }, 2000);
-        }
-
-        logger.info(
-          `User ${socket.userId} uploaded chunk ${data.chunkIndex} for file ${session.fileName}`
-        );
-      } catch (error) {
+      const receivedChunks = await UploadService.saveChunk(
+        upload,
+        data.chunkIndex,
+        data.chunkData,
+        data.sha256
+      );
+
+      const response: UploadProgressResponse = {
+        fileId: upload.id,
+        chunkIndex: data.chunkIndex,
+        receivedChunks,
+        totalChunks: upload.totalChunks,
+        progress: Math.round((receivedChunks / upload.totalChunks) * 100),
+      };
+      socket.emit('upload:progress', response);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
         logger.error(
-          `Error processing chunk for file ${session.fileName}: ${error}`
+          `Error saving chunk ${data.chunkIndex} of upload ${data.fileId}:`,
+          error
         );
-        socket.emit('upload:error', {
-          fileId: data.fileId,
-          error: 'Failed to process chunk',
-        });
       }
+      emitError({ fileId: data.fileId }, error, 'Failed to process chunk');
     }
-  );
+  });
 
-  // Complete upload
-  socket.on('upload:complete', (data: { fileId: string }) => {
+  // Report an upload's state, including the chunks still to send
+  socket.on('upload:resume', async (data: UploadFileData) => {
     if (!socket.userId) {
       socket.emit('error', { message: 'Not authenticated' });
       return;
     }
 
-    const session = uploadSessions.get(data.fileId);
-    if (!session) {
-      socket.emit('upload:error', {
-        fileId: data.fileId,
-        error: 'Upload session not found',
-      });
-      return;
+    try {
+      const upload = await findUpload(data.fileId);
+      if (!upload) return;
+
+      const response: UploadStatusResponse = {
+        fileId: upload.id,
+        status: upload.status,
+        totalChunks: upload.totalChunks,
+        missingChunks: await UploadService.missingChunks(upload),
+        error: upload.error,
+        media: UploadService.formatMedia(upload),
+      };
+      socket.emit('upload:status', response);
+    } catch (error) {
+      logger.error(`Error resuming upload ${data.fileId}:`, error);
+      emitError({ fileId: data.fileId }, error, 'Failed to resume upload');
     }
+  });
 
-    // Verify all chunks were received
-    if (session.receivedChunks !== session.totalChunks) {
-      socket.emit('upload:error', {
-        fileId: data.fileId,
-        error: 'Incomplete upload',
-      });
+  // Complete upload: assemble the file and store it as media
+  socket.on('upload:complete', async (data: UploadFileData) => {
+    if (!socket.userId) {
+      socket.emit('error', { message: 'Not authenticated' });
       return;
     }
 
-    // Emit success
-    socket.emit('upload:success', {
-      fileId: data.fileId,
-      fileName: session.fileName,
-      fileType: session.fileType,
-      fileSize: session.fileSize,
-    });
-
-    logger.info(
-      `User ${socket.userId} completed upload for file ${session.fileName}`
-    );
+    try {
+      const upload = await findUpload(data.fileId);
+      if (!upload) return;
+
+      socket.emit('upload:processing', {
+        fileId: upload.id,
+        status: 'processing',
+        message: 'Processing your file...',
+      });
+
+      const completed = await UploadService.complete(upload);
+
+      const response: UploadSuccessResponse = {
+        fileId: completed.id,
+        ...UploadService.formatMedia(completed)!,
+      };
+      socket.emit('upload:success', response);
+
+      logger.info(
+        `User ${socket.userId} completed upload ${completed.id} for file ${completed.fileName}`
+      );
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        logger.error(`Error completing upload ${data.fileId}:`, error);
+      }
+      emitError({ fileId: data.fileId }, error, 'Failed to process file');
+    }
   });
 
   // Cancel upload
-  socket.on('upload:cancel', (data: { fileId: string }) => {
+  socket.on('upload:cancel', async (data: UploadFileData) => {
     if (!socket.userId) {
       socket.emit('error', { message: 'Not authenticated' });
       return;
     }
 
-    const session = uploadSessions.get(data.fileId);
-    if (!session) {
-      socket.emit('upload:error', {
-        fileId: data.fileId,
-        error: 'Upload session not found',
-      });
-      return;
-    }
-
-    // Clean up resources (in real implementation, delete partial files)
-    uploadSessions.delete(data.fileId);
+    try {
+      const upload = await findUpload(data.fileId);
+      if (!upload) return;
 
-    socket.emit('upload:error', {
-      fileId: data.fileId,
-      error: 'Upload cancelled by user',
-    });
+      await UploadService.cancel(upload);
 
-    logger.info(
-      `User ${socket.userId} cancelled upload for file ${session.fileName}`
-    );
-  });
+      const response: UploadErrorResponse = {
+        fileId: upload.id,
+        error: 'Upload cancelled by user',
+      };
+      socket.emit('upload:error', response);
 
-  // Clean up on disconnect
-  socket.on('disconnect', () => {
-    // Clean up any incomplete uploads
-    for (const [fileId, session] of uploadSessions.entries()) {
-      if (session.receivedChunks !== session.totalChunks) {
-        // Clean up resources (in real implementation, delete partial files)
-        uploadSessions.delete(fileId);
-        logger.info(
-          `Cleaned up incomplete upload for file ${session.fileName}`
-        );
+      logger.info(
+        `User ${socket.userId} cancelled upload ${upload.id} for file ${upload.fileName}`
+      );
+    } catch (error) {
+      if (!(error instanceof ValidationError)) {
+        logger.error(`Error cancelling upload ${data.fileId}:`, error);
       }
+      emitError({ fileId: data.fileId }, error, 'Failed to cancel upload');
     }
   });
 };
@@ -1,3 +1,5 @@
+import type { ImageVariant } from './storage';
+
 // User related types
 export interface User {
   id: string;
@@ -30,6 +32,7 @@ export interface UserProfile
   phone?: string | null;
   isFollowing?: boolean;
   isFollower?: boolean;
+  isRequested?: boolean;
   isOwnProfile?: boolean;
 }
 
@@ -76,6 +79,7 @@ export interface Post {
   user: UserProfile;
   media: PostMedia[];
   hashtags: Hashtag[];
+  mentions?: Mention[];
   isLiked?: boolean;
   isSaved?: boolean;
 }
@@ -87,6 +91,11 @@ export interface PostMedia {
   type: MediaType;
   width?: number;
   height?: number;
+  duration?: number;
+  posterUrl?: string;
+  // Image renditions and blurred preview, for images
+  variants?: ImageVariant[];
+  placeholder?: string;
   order: number;
   createdAt: Date;
 }
@@ -99,6 +108,10 @@ export interface CreatePostRequest {
   hashtags?: string[];
 }
 
+export interface ReorderPostMediaRequest {
+  mediaIds: string[];
+}
+
 export interface UpdatePostRequest {
   caption?: string;
   location?: string;
@@ -107,6 +120,57 @@ export interface UpdatePostRequest {
   isArchived?: boolean;
 }
 
+// Drafts and scheduled posts
+export interface UpdateDraftRequest {
+  caption?: string | null;
+  location?: string | null;
+  commentsEnabled?: boolean;
+  likesEnabled?: boolean;
+  // IDs of the draft's media to keep, in order
+  mediaIds?: string[];
+}
+
+export interface ScheduleDraftRequest {
+  publishAt: string;
+}
+
+// Saved posts and collections
+export interface SavedPost extends Post {
+  savedAt: Date;
+}
+
+export interface Collection {
+  id: string;
+  userId: string;
+  name: string;
+  coverUrl?: string;
+  cover: string | null;
+  position: number;
+  postsCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateCollectionRequest {
+  name: string;
+  coverUrl?: string;
+  postIds?: string[];
+}
+
+export interface UpdateCollectionRequest {
+  name?: string;
+  coverUrl?: string | null;
+  postIds?: string[];
+}
+
+export interface ReorderCollectionsRequest {
+  collectionIds: string[];
+}
+
+export interface AddCollectionPostRequest {
+  postId: string;
+}
+
 // Comment related types
 export interface Comment {
   id: string;
@@ -119,9 +183,16 @@ export interface Comment {
   updatedAt: Date;
   user: UserProfile;
   replies?: Comment[];
+  mentions?: Mention[];
   isLiked?: boolean;
 }
 
+// User mentioned with @username, rendered as a profile link
+export interface Mention {
+  id: string;
+  username: string;
+}
+
 export interface CreateCommentRequest {
   content: string;
   parentId?: string;
@@ -169,11 +240,13 @@ export interface Story {
   mediaUrl: string;
   mediaType: MediaType;
   text?: string;
+  audience: StoryAudience;
   expiresAt: Date;
   createdAt: Date;
   user: UserProfile;
   views: StoryView[];
   isViewed?: boolean;
+  isCloseFriends?: boolean;
 }
 
 export interface StoryView {
@@ -184,11 +257,68 @@ export interface StoryView {
   user?: UserProfile;
 }
 
+export type StickerType =
+  | 'POLL'
+  | 'QUESTION'
+  | 'QUIZ'
+  | 'EMOJI_SLIDER'
+  | 'MENTION'
+  | 'LINK';
+
+// Position relative to the story canvas (0-1), rotation in degrees
+export interface StickerPosition {
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  rotation?: number;
+}
+
+export interface CreateStickerRequest {
+  type: StickerType;
+  position: StickerPosition;
+  data: Record<string, unknown>;
+}
+
+export interface StickerResponseRequest {
+  optionIndex?: number;
+  text?: string;
+  value?: number;
+}
+
 export interface CreateStoryRequest {
   text?: string;
+  audience?: StoryAudience;
+  stickers?: CreateStickerRequest[];
   expiresAt?: Date;
 }
 
+export interface Highlight {
+  id: string;
+  userId: string;
+  title: string;
+  coverUrl?: string;
+  cover: string | null;
+  storiesCount: number;
+  stories: Array<
+    Omit<Story, 'user' | 'views' | 'isViewed'> & { position: number }
+  >;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateHighlightRequest {
+  title: string;
+  coverUrl?: string;
+  storyIds: string[];
+}
+
+export interface UpdateHighlightRequest {
+  title?: string;
+  coverUrl?: string | null;
+  storyIds?: string[];
+}
+
 // Message related types
 export interface Message {
   id: string;
@@ -198,12 +328,27 @@ export interface Message {
   type: MessageType;
   mediaUrl?: string;
   replyToId?: string;
+  storyId?: string;
   isRead: boolean;
   createdAt: Date;
   updatedAt: Date;
   sender: UserProfile;
   replyTo?: Message;
   reactions: MessageReaction[];
+  storyReply?: StoryReplyPreview;
+}
+
+// Story a STORY_REPLY message refers to. Once the story expires or is
+// deleted only the placeholder is sent.
+export interface StoryReplyPreview {
+  storyId: string | null;
+  isAvailable: boolean;
+  placeholder?: string;
+  userId?: string;
+  mediaUrl?: string;
+  mediaType?: string;
+  text?: string | null;
+  expiresAt?: Date;
 }
 
 export interface MessageReaction {
@@ -251,11 +396,11 @@ export interface CreateConversationRequest {
 // Notification related types
 export interface Notification {
   id: string;
-  senderId: string;
+  senderId?: string | null;
   receiverId: string;
   type: NotificationType;
   title: string;
-  message: string;
+  content: string;
   data?: any;
   isRead: boolean;
   createdAt: Date;
@@ -346,6 +491,11 @@ export enum MediaType {
   AUDIO = 'audio',
 }
 
+export enum StoryAudience {
+  EVERYONE = 'EVERYONE',
+  CLOSE_FRIENDS = 'CLOSE_FRIENDS',
+}
+
 export enum ConversationType {
   DIRECT = 'direct',
   GROUP = 'group',
@@ -362,6 +512,7 @@ export enum MessageType {
   VIDEO = 'video',
   AUDIO = 'audio',
   FILE = 'file',
+  STORY_REPLY = 'story_reply',
 }
 
 export enum NotificationType {
@@ -371,6 +522,7 @@ export enum NotificationType {
   MENTION = 'mention',
   MESSAGE = 'message',
   STORY_VIEW = 'story_view',
+  STORY_SCREENSHOT = 'story_screenshot',
   POST_UPLOAD = 'post_upload',
 }
 
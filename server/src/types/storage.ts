@@ -0,0 +1,79 @@
+export type StorageDriverName = 'cloudinary' | 'local';
+
+export type StoredResourceType = 'image' | 'video' | 'raw';
+
+// Resize applied to images as they are stored. `cover` crops to fill the
+// box, `inside` only scales down to fit it.
+export interface ImageTransform {
+  width: number;
+  height?: number;
+  fit: 'cover' | 'inside';
+}
+
+export interface StoreOptions {
+  // Folder under the storage root, e.g. `posts` or `messages/audio`
+  folder: string;
+  // Stable file name without extension; a file with the same name is
+  // replaced. A unique name is generated when omitted.
+  name?: string;
+  contentType: string;
+  originalName?: string;
+  transform?: ImageTransform;
+}
+
+export interface StoredFile {
+  // Driver-specific identifier of the stored file
+  key: string;
+  url: string;
+  resourceType: StoredResourceType;
+  width: number | null;
+  height: number | null;
+  // Seconds, for videos and audio when the driver can tell
+  duration: number | null;
+  bytes: number;
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  store(data: Buffer, options: StoreOptions): Promise<StoredFile>;
+  // Whether a URL points at a file this driver stored
+  owns(url: string): boolean;
+  delete(url: string): Promise<boolean>;
+  // Poster frame for a stored video, when the driver can produce one
+  posterUrl(url: string): string | null;
+  // Identifier of the file a URL points at, matching `StoredObject.key`
+  keyOf(url: string): string | null;
+  // Every file the driver holds for the app
+  list(): AsyncIterable<StoredObject>;
+}
+
+// A file found in storage, whatever stored it
+export interface StoredObject {
+  key: string;
+  url: string;
+  bytes: number;
+  createdAt: Date;
+}
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'avif';
+
+// One stored rendition of an image
+export interface ImageVariant {
+  url: string;
+  width: number;
+  height: number;
+  format: ImageFormat;
+}
+
+// An image stored at several widths and formats
+export interface StoredImage {
+  // Largest variant in the uploaded format, for clients that ignore variants
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+  // Tiny blurred preview as a data URI, shown while a variant loads
+  placeholder: string;
+  variants: ImageVariant[];
+  bytes: number;
+}
@@ -13,16 +13,9 @@ export interface StoryReactionData {
 
 export interface StoryScreenshotData {
   storyId: string;
-  authorId: string;
   timestamp: number;
 }
 
-export interface StoryCreatedData {
-  storyId: string;
-  authorId: string;
-  createdAt: number;
-}
-
 export interface StoryViewedResponse {
   storyId: string;
   viewedBy: string;
@@ -39,6 +32,7 @@ export interface StoryReactionResponse {
 export interface StoryScreenshotResponse {
   storyId: string;
   takenBy: string;
+  screenshotCount: number;
   timestamp: number;
 }
 
@@ -62,3 +56,35 @@ export interface StoryReactionsResponse {
   }>;
   timestamp: number;
 }
+
+export interface StoryStickerResponseEvent {
+  storyId: string;
+  stickerId: string;
+  response: {
+    id: string;
+    optionIndex: number | null;
+    text: string | null;
+    value: number | null;
+    isCorrect?: boolean;
+    createdAt: Date;
+    user: {
+      id: string;
+      username: string;
+      fullName: string | null;
+      avatar: string | null;
+      isVerified: boolean;
+    };
+  };
+  results: {
+    total: number;
+    options?: Array<{
+      index: number;
+      label: string;
+      count: number;
+      percentage: number;
+    }>;
+    correctCount?: number;
+    averageValue?: number | null;
+  };
+  timestamp: number;
+}
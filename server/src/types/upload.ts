@@ -0,0 +1,78 @@
+import type { ImageVariant } from './storage';
+
+export type UploadPurposeName = 'POST' | 'STORY' | 'MESSAGE';
+
+export interface UploadStartData {
+  // Echoed back so the client can match the upload it started
+  clientId?: string;
+  purpose: UploadPurposeName;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  chunkSize: number;
+  // SHA-256 of the whole file, hex encoded
+  sha256: string;
+}
+
+export interface UploadChunkData {
+  fileId: string;
+  chunkIndex: number;
+  chunkData: Buffer;
+  // SHA-256 of the chunk, hex encoded
+  sha256: string;
+}
+
+export interface UploadFileData {
+  fileId: string;
+}
+
+export interface UploadStartedResponse {
+  clientId?: string;
+  fileId: string;
+  chunkSize: number;
+  totalChunks: number;
+  expiresAt: Date;
+}
+
+export interface UploadProgressResponse {
+  fileId: string;
+  chunkIndex: number;
+  receivedChunks: number;
+  totalChunks: number;
+  progress: number;
+}
+
+export interface UploadStatusResponse {
+  fileId: string;
+  status: 'PENDING' | 'PROCESSING' | 'COMPLETED' | 'FAILED';
+  totalChunks: number;
+  missingChunks: number[];
+  error?: string | null;
+  media?: UploadedMediaResponse;
+}
+
+export interface UploadedMediaResponse {
+  // ID a post, story or message references the media by
+  mediaId: string;
+  url: string;
+  type: 'IMAGE' | 'VIDEO' | 'AUDIO';
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  posterUrl: string | null;
+  variants: ImageVariant[] | null;
+  placeholder: string | null;
+}
+
+export interface UploadSuccessResponse extends UploadedMediaResponse {
+  fileId: string;
+}
+
+export interface UploadErrorResponse {
+  fileId?: string;
+  // Set instead of `fileId` when an upload could not be started
+  clientId?: string;
+  error: string;
+  // Set when the upload would exceed the user's storage quota
+  code?: 'STORAGE_QUOTA_EXCEEDED';
+}